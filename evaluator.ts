@@ -2,17 +2,18 @@ import "dotenv/config";
 import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "langchain/output_parsers";
-import type { BaseMessage } from "@langchain/core/messages";
 import { z } from "zod";
 import { Langfuse } from "langfuse";
 import { fileURLToPath } from "url";
+import { ResilientChatModel } from "./src/llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "./src/llm/structured_output.js";
 
 const schema = z.object({
   score: z.number().min(1).max(10),
   reasoning: z.string().min(10),
 });
 
-const instructionsParser = StructuredOutputParser.fromZodSchema(schema);
+const instructionsParser: OutputParserLike<EvaluationResult> = StructuredOutputParser.fromZodSchema(schema);
 const formatInstructions = instructionsParser.getFormatInstructions();
 
 const prompt = ChatPromptTemplate.fromMessages([
@@ -34,14 +35,20 @@ const EVALUATOR_MODEL =
   process.env.OPENROUTER_EVALUATOR_MODEL ??
   "openai/gpt-5-mini";
 
-const llm = new ChatOpenAI({
-  apiKey: OPENROUTER_API_KEY,
-  model: EVALUATOR_MODEL,
-  temperature: 0,
-  configuration: {
-    baseURL: OPENROUTER_BASE_URL,
+const llm = new ResilientChatModel([
+  {
+    name: EVALUATOR_MODEL,
+    model: new ChatOpenAI({
+      apiKey: OPENROUTER_API_KEY,
+      model: EVALUATOR_MODEL,
+      temperature: 0,
+      maxRetries: 0,
+      configuration: {
+        baseURL: OPENROUTER_BASE_URL,
+      },
+    }),
   },
-});
+]);
 
 const langfuseClient = process.env.LANGFUSE_SECRET_KEY
   ? new Langfuse({
@@ -66,8 +73,7 @@ export async function evaluateAnswer(
     answer,
     format_instructions: instructionsParser.getFormatInstructions()
   });
-  const response = await llm.invoke(messages);
-  const parsed = await instructionsParser.parse(extractText(response));
+  const parsed = await invokeStructured(llm, messages, instructionsParser);
   const result: EvaluationResult = {
     score: parsed.score,
     reasoning: parsed.reasoning,
@@ -85,28 +91,6 @@ export async function evaluateAnswer(
   return result;
 }
 
-function extractText(message: BaseMessage): string {
-  const content = message.content;
-  if (typeof content === "string") {
-    return content;
-  }
-  if (Array.isArray(content)) {
-    return content
-      .map((chunk) => {
-        if (typeof chunk === "string") {
-          return chunk;
-        }
-        if ("text" in chunk && typeof chunk.text === "string") {
-          return chunk.text;
-        }
-        return "";
-      })
-      .join("")
-      .trim();
-  }
-  return "";
-}
-
 const evaluatorFilePath = fileURLToPath(import.meta.url);
 
 if (process.argv[1] === evaluatorFilePath) {
@@ -0,0 +1,203 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+
+export const ACCESS_ROLES_KEY = "access_roles";
+export const ACCESS_REGIONS_KEY = "access_regions";
+/** Marker stored in ACL metadata for content that is open to every caller. */
+export const PUBLIC_ACCESS = "*";
+
+const ROLE_FOLDER_PATTERN = /^role-([\w.-]+)$/i;
+const REGION_FOLDER_PATTERN = /^region-([\w.-]+)$/i;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export interface CallerIdentity {
+  userId: string;
+  roles: string[];
+  region?: string;
+}
+
+export interface DocumentAcl {
+  /** Roles allowed to read the document; any one of them suffices. Omitted means everyone. */
+  roles?: string[];
+  /** Regions the document applies to. Omitted means every region. */
+  regions?: string[];
+}
+
+/**
+ * Metadata key → accepted values. A chunk matches when, for every key, its array
+ * metadata shares at least one value with the list. Vector store providers translate
+ * this into their native filter syntax.
+ */
+export type AccessConditions = Record<string, string[]>;
+
+export function accessConditions(caller?: CallerIdentity): AccessConditions {
+  return {
+    [ACCESS_ROLES_KEY]: [PUBLIC_ACCESS, ...(caller?.roles ?? []).map(normalizeLabel)],
+    [ACCESS_REGIONS_KEY]: [PUBLIC_ACCESS, ...(caller?.region ? [normalizeLabel(caller.region)] : [])]
+  };
+}
+
+export function matchesAccessConditions(
+  metadata: Record<string, any> | undefined,
+  conditions: AccessConditions
+): boolean {
+  return Object.entries(conditions).every(([key, accepted]) => {
+    const value = metadata?.[key];
+    const values: unknown[] = Array.isArray(value) ? value : value === undefined ? [PUBLIC_ACCESS] : [value];
+    return values.some((entry) => typeof entry === "string" && accepted.includes(entry));
+  });
+}
+
+export function isRestricted(metadata: Record<string, any> | undefined): boolean {
+  return !matchesAccessConditions(metadata, accessConditions());
+}
+
+/** Reads the ACL a chunk was indexed with, for audits and refusals. */
+export function aclOf(metadata: Record<string, any> | undefined): Required<DocumentAcl> {
+  const read = (key: string) => {
+    const value = metadata?.[key];
+    return (Array.isArray(value) ? value : [PUBLIC_ACCESS]).filter(
+      (entry): entry is string => typeof entry === "string"
+    );
+  };
+  return { roles: read(ACCESS_ROLES_KEY), regions: read(ACCESS_REGIONS_KEY) };
+}
+
+/**
+ * ACL metadata for a document. Folder segments named `role-<role>` or `region-<region>`
+ * in `relativePath` restrict everything inside them; `roles:` and `regions:` from the
+ * document's front-matter or sidecar metadata take precedence.
+ */
+export function aclMetadata(
+  attributes: Record<string, string | string[]>,
+  relativePath: string
+): Record<string, string[]> {
+  const folderAcl = aclFromPath(relativePath);
+  const roles = listAttribute(attributes.roles) ?? folderAcl.roles;
+  const regions = listAttribute(attributes.regions) ?? folderAcl.regions;
+  return {
+    [ACCESS_ROLES_KEY]: roles?.length ? roles.map(normalizeLabel) : [PUBLIC_ACCESS],
+    [ACCESS_REGIONS_KEY]: regions?.length ? regions.map(normalizeLabel) : [PUBLIC_ACCESS]
+  };
+}
+
+export function aclFromPath(relativePath: string): DocumentAcl {
+  const roles: string[] = [];
+  const regions: string[] = [];
+  for (const segment of path.dirname(relativePath).split(/[\\/]/)) {
+    const role = segment.match(ROLE_FOLDER_PATTERN)?.[1];
+    const region = segment.match(REGION_FOLDER_PATTERN)?.[1];
+    if (role) {
+      roles.push(role);
+    }
+    if (region) {
+      regions.push(region);
+    }
+  }
+  return { ...(roles.length ? { roles } : {}), ...(regions.length ? { regions } : {}) };
+}
+
+/**
+ * Minimal front-matter reader for `key: value`, `key: [a, b]`, and indented `- item`
+ * lists, which is all the ingestion metadata needs.
+ */
+export function parseFrontMatter(text: string): {
+  attributes: Record<string, string | string[]>;
+  body: string;
+} {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+  const attributes: Record<string, string | string[]> = {};
+  let listKey: string | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s*(.+)$/);
+    if (item && listKey) {
+      (attributes[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const entry = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!entry) {
+      continue;
+    }
+    const [, key, raw] = entry;
+    listKey = undefined;
+    if (!raw.trim()) {
+      attributes[key] = [];
+      listKey = key;
+    } else if (/^\[.*\]$/.test(raw.trim())) {
+      attributes[key] = raw
+        .trim()
+        .slice(1, -1)
+        .split(",")
+        .map(unquote)
+        .filter(Boolean);
+    } else {
+      attributes[key] = unquote(raw);
+    }
+  }
+  return { attributes, body: text.slice(match[0].length) };
+}
+
+function listAttribute(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : value.split(",")).map((entry) => entry.trim()).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+function normalizeLabel(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export interface RestrictedChunk {
+  label: string;
+  roles: string[];
+  regions: string[];
+}
+
+export interface AccessAuditEvent {
+  timestamp: string;
+  userId?: string;
+  roles: string[];
+  region?: string;
+  sessionId?: string;
+  intent: string;
+  question: string;
+  /** `refused` when nothing the caller may read was relevant; `partial` when some chunks were withheld. */
+  outcome: "refused" | "partial";
+  restricted: RestrictedChunk[];
+}
+
+export interface AccessAuditLog {
+  record(event: AccessAuditEvent): Promise<void>;
+}
+
+export class InMemoryAccessAuditLog implements AccessAuditLog {
+  readonly events: AccessAuditEvent[] = [];
+
+  async record(event: AccessAuditEvent): Promise<void> {
+    this.events.push(event);
+  }
+}
+
+/** Appends one JSON line per event so the log can be tailed or shipped as-is. */
+export class FileAccessAuditLog implements AccessAuditLog {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  record(event: AccessAuditEvent): Promise<void> {
+    const write = this.writes.then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(event)}\n`, "utf8");
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,64 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+
+const KB_ID_GLOBAL_PATTERN = /\bKB-[A-Z]+\d+\b/gi;
+
+/** `partial` means some citations were verified and others were not. */
+export type CitationStatus = "verified" | "partial" | "unverified" | "missing";
+
+export type CitationMode = "drop" | "flag";
+
+export interface CitationVerificationOptions {
+  /** `drop` removes invented citations from `sources`; `flag` keeps them but reports them. */
+  mode?: CitationMode;
+  /** Replace answers that have no verified citation with an "I don't know" response. */
+  requireGrounding?: boolean;
+}
+
+export interface CitationVerification {
+  status: CitationStatus;
+  verified: string[];
+  rejected: string[];
+}
+
+/**
+ * Checks each LLM citation against the chunks that were actually retrieved. Citations
+ * naming KB IDs are grounded only if every ID was retrieved; other citations must equal
+ * a retrieved chunk's section or source path. Comparisons ignore case only.
+ */
+export function verifyCitations(
+  citations: string[],
+  docs: DocumentInterface[]
+): CitationVerification {
+  const cleaned = citations.map((citation) => citation.trim()).filter(Boolean);
+  if (!cleaned.length) {
+    return { status: "missing", verified: [], rejected: [] };
+  }
+  const known = new Set<string>();
+  for (const doc of docs) {
+    for (const key of ["kb_id", "section", "source"]) {
+      const value = doc.metadata?.[key];
+      if (typeof value === "string" && value) {
+        known.add(normalize(value));
+      }
+    }
+  }
+
+  const verified: string[] = [];
+  const rejected: string[] = [];
+  for (const citation of cleaned) {
+    const kbIds = citation.match(KB_ID_GLOBAL_PATTERN) ?? [];
+    const grounded = kbIds.length
+      ? kbIds.every((kbId) => known.has(normalize(kbId)))
+      : known.has(normalize(citation));
+    (grounded ? verified : rejected).push(citation);
+  }
+  return {
+    status: !verified.length ? "unverified" : rejected.length ? "partial" : "verified",
+    verified,
+    rejected
+  };
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
@@ -0,0 +1,63 @@
+import { UNKNOWN_INTENT } from "./types.js";
+import type { DepartmentIntent } from "./types.js";
+import type { ClassificationCandidate, OrchestratorResult } from "./orchestrator.js";
+
+export interface ConfidencePolicy {
+  /** Below this confidence the router asks a clarifying question instead of dispatching. */
+  clarifyBelow: number;
+  /** Below this (and at or above `clarifyBelow`) the top candidates run with a caveat. */
+  caveatBelow: number;
+  /** Candidate departments offered or run when confidence is low; defaults to 2. */
+  maxCandidates?: number;
+}
+
+export type ConfidenceDecision =
+  | { action: "dispatch"; intents: DepartmentIntent[] }
+  | { action: "caveat"; intents: DepartmentIntent[]; candidates: ClassificationCandidate[] }
+  | { action: "clarify"; candidates: ClassificationCandidate[] };
+
+/**
+ * Decides what to do with a classification. Confident results dispatch as usual. Low
+ * confidence, or an `unknown` result with plausible candidates, asks the user first;
+ * once a clarification was already requested the router runs the top candidates
+ * with a caveat instead of asking again.
+ */
+export function decideConfidenceAction(
+  classification: OrchestratorResult,
+  orderedIntents: DepartmentIntent[],
+  policy: ConfidencePolicy,
+  { allowClarification, isKnown }: { allowClarification: boolean; isKnown(intent: DepartmentIntent): boolean }
+): ConfidenceDecision {
+  const known = orderedIntents.filter((intent) => intent !== UNKNOWN_INTENT && isKnown(intent));
+  const candidates = rankCandidates(classification, known, isKnown).slice(0, policy.maxCandidates ?? 2);
+  const { confidence } = classification;
+  if (known.length && confidence >= policy.caveatBelow) {
+    return { action: "dispatch", intents: orderedIntents };
+  }
+  if (!candidates.length) {
+    return { action: "dispatch", intents: orderedIntents };
+  }
+  if (allowClarification && (confidence < policy.clarifyBelow || !known.length)) {
+    return { action: "clarify", candidates };
+  }
+  const intents = [...new Set([...known, ...candidates.map(({ intent }) => intent)])].slice(
+    0,
+    Math.max(known.length, candidates.length)
+  );
+  return { action: "caveat", intents, candidates };
+}
+
+function rankCandidates(
+  classification: OrchestratorResult,
+  known: DepartmentIntent[],
+  isKnown: (intent: DepartmentIntent) => boolean
+): ClassificationCandidate[] {
+  const ranked = [
+    ...(classification.candidates ?? []),
+    ...known.map((intent) => ({ intent, confidence: classification.confidence }))
+  ]
+    .filter(({ intent }) => isKnown(intent))
+    .sort((a, b) => b.confidence - a.confidence);
+  const seen = new Set<DepartmentIntent>();
+  return ranked.filter(({ intent }) => !seen.has(intent) && Boolean(seen.add(intent)));
+}
@@ -0,0 +1,39 @@
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import type { Reranker, RetrieverLike } from "./domain_agent.js";
+import type { CitationVerificationOptions } from "./citation_verifier.js";
+import type { ToolRegistry } from "../tools/tool_registry.js";
+import type { DepartmentDefinition, DepartmentRegistry } from "./department_registry.js";
+import { DomainRagAgent } from "./domain_agent.js";
+
+export async function createDepartmentAgent(
+  llm: ChatModelLike,
+  retriever: RetrieverLike,
+  department: DepartmentDefinition,
+  registry: DepartmentRegistry,
+  citations?: CitationVerificationOptions,
+  reranker?: Reranker,
+  restrictedContent = false,
+  tools?: ToolRegistry
+) {
+  return DomainRagAgent.init({
+    llm,
+    retriever,
+    options: {
+      intent: department.intent,
+      name: department.agentName,
+      styleGuide: department.styleGuide,
+      handoffIntents: registry.intents,
+      citations,
+      relevance: {
+        reranker,
+        minScore: department.relevance.minScore,
+        topN: department.relevance.topN,
+        escalation:
+          department.escalation ?? `Contact the ${department.displayName} team directly for guidance.`
+      },
+      restrictedContent,
+      tools,
+      maxToolCalls: department.maxToolCalls
+    }
+  });
+}
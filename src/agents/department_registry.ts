@@ -0,0 +1,155 @@
+import { readFile, stat } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { UNKNOWN_INTENT } from "./types.js";
+import type { DepartmentIntent } from "./types.js";
+
+const retrieverSchema = z
+  .object({
+    k: z.number().int().min(1).max(50).default(5),
+    /** `hybrid` fuses vector and BM25 keyword rankings; `vector` uses embeddings only. */
+    mode: z.enum(["hybrid", "vector"]).default("hybrid"),
+    vectorWeight: z.number().min(0).default(1),
+    keywordWeight: z.number().min(0).default(1),
+    /** Candidates pulled from each ranking before fusion; defaults to 4 × k. */
+    candidateK: z.number().int().min(1).max(200).optional()
+  })
+  .refine((value) => value.vectorWeight > 0 || value.keywordWeight > 0, {
+    message: "vectorWeight and keywordWeight cannot both be 0"
+  })
+  .default({});
+
+const relevanceSchema = z
+  .object({
+    /** Reorders and rescores retrieved chunks before the threshold is applied. */
+    reranker: z.enum(["none", "lexical", "llm"]).default("none"),
+    /** Chunks scoring below this are dropped; if none remain the agent answers "not covered". */
+    minScore: z.number().min(0).max(1).optional(),
+    topN: z.number().int().min(1).max(50).optional()
+  })
+  .default({});
+
+const departmentSchema = z.object({
+  intent: z
+    .string()
+    .regex(/^[a-z][a-z0-9_-]*$/, "must be lowercase letters, digits, dashes, or underscores")
+    .refine((value) => value !== UNKNOWN_INTENT, `"${UNKNOWN_INTENT}" is reserved for out-of-scope questions`),
+  displayName: z.string().min(1),
+  agentName: z.string().min(1),
+  description: z.string().min(1),
+  styleGuide: z.string().min(1),
+  dataFolder: z.string().min(1),
+  namespace: z.string().min(1).optional(),
+  retriever: retrieverSchema,
+  relevance: relevanceSchema,
+  /** Where to send employees when the knowledge base does not cover their question. */
+  escalation: z.string().min(1).optional(),
+  /** Names of the tools this department's agent may call. */
+  tools: z.array(z.string().min(1)).default([]),
+  /** Tool calls allowed per question before the agent must answer. */
+  maxToolCalls: z.number().int().min(1).max(10).optional()
+});
+
+const registrySchema = z
+  .object({
+    departments: z.array(departmentSchema).min(1, "at least one department is required")
+  })
+  .superRefine(({ departments }, ctx) => {
+    const seen = new Map<string, number>();
+    departments.forEach((department, idx) => {
+      const previous = seen.get(department.intent);
+      if (previous !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["departments", idx, "intent"],
+          message: `duplicates departments[${previous}].intent "${department.intent}"`
+        });
+      }
+      seen.set(department.intent, idx);
+    });
+  });
+
+export type DepartmentDefinition = z.infer<typeof departmentSchema>;
+
+/**
+ * Departments declared in `departments.json`. The orchestrator prompt, the intent
+ * schemas, and the agent map are all generated from this registry at startup.
+ */
+export class DepartmentRegistry {
+  private readonly byIntent: Map<DepartmentIntent, DepartmentDefinition>;
+
+  constructor(readonly departments: DepartmentDefinition[]) {
+    this.byIntent = new Map(departments.map((department) => [department.intent, department]));
+  }
+
+  /** Department intent keys, excluding the reserved `unknown` intent. */
+  get intents(): DepartmentIntent[] {
+    return this.departments.map((department) => department.intent);
+  }
+
+  /** Every intent the LLM may emit, including `unknown`. */
+  get intentsWithUnknown(): [DepartmentIntent, ...DepartmentIntent[]] {
+    const [first, ...rest] = [...this.intents, UNKNOWN_INTENT];
+    return [first, ...rest];
+  }
+
+  has(intent: string): boolean {
+    return this.byIntent.has(intent);
+  }
+
+  get(intent: DepartmentIntent): DepartmentDefinition | undefined {
+    return this.byIntent.get(intent);
+  }
+
+  describe(): string {
+    return this.departments
+      .map((department) => `- ${department.intent} (${department.displayName}): ${department.description}`)
+      .join("\n");
+  }
+
+  static fromConfig(raw: unknown, sourceLabel = "department config"): DepartmentRegistry {
+    const parsed = registrySchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => {
+        const location = issue.path.length ? formatPath(issue.path) : "(root)";
+        return `  - ${location}: ${issue.message}`;
+      });
+      throw new Error(`Invalid ${sourceLabel}:\n${issues.join("\n")}`);
+    }
+    return new DepartmentRegistry(parsed.data.departments);
+  }
+}
+
+/**
+ * Reads and validates the registry file, then checks that every department's data
+ * folder exists so misconfigurations fail at startup rather than mid-ingestion.
+ */
+export async function loadDepartmentRegistry(
+  configPath: string,
+  dataDir: string
+): Promise<DepartmentRegistry> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(configPath, "utf8"));
+  } catch (error: any) {
+    const reason = error?.code === "ENOENT" ? "file not found" : error?.message ?? String(error);
+    throw new Error(`Unable to read department config ${configPath}: ${reason}`);
+  }
+  const registry = DepartmentRegistry.fromConfig(raw, `department config ${configPath}`);
+  for (const department of registry.departments) {
+    const folder = path.join(dataDir, department.dataFolder);
+    const folderStat = await stat(folder).catch(() => undefined);
+    if (!folderStat?.isDirectory()) {
+      throw new Error(
+        `Invalid department config ${configPath}:\n  - department "${department.intent}": data folder ${folder} does not exist`
+      );
+    }
+  }
+  return registry;
+}
+
+function formatPath(segments: (string | number)[]): string {
+  return segments
+    .map((segment, idx) => (typeof segment === "number" ? `[${segment}]` : idx ? `.${segment}` : segment))
+    .join("");
+}
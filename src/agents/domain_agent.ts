@@ -1,24 +1,72 @@
+import { RunnableLambda } from "@langchain/core/runnables";
 import type { RunnableConfig } from "@langchain/core/runnables";
 import type { DocumentInterface } from "@langchain/core/documents";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
-import type { BaseMessage } from "@langchain/core/messages";
-import type { ChatOpenAI } from "@langchain/openai";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { z } from "zod";
-import { DepartmentIntent } from "./types.js";
+import { DepartmentIntent, UNKNOWN_INTENT } from "./types.js";
+import { verifyCitations } from "./citation_verifier.js";
+import type { CitationStatus, CitationVerificationOptions } from "./citation_verifier.js";
+import { accessConditions, aclOf, isRestricted, matchesAccessConditions } from "../access/access_control.js";
+import type { AccessConditions, CallerIdentity, RestrictedChunk } from "../access/access_control.js";
+import type { ToolCallRecord, ToolRegistry } from "../tools/tool_registry.js";
+
+export interface ScoredDocument {
+  document: DocumentInterface;
+  /** Relevance in [0, 1]; rerankers replace the retriever's score with their own. */
+  score: number;
+}
+
+/** A retrieved chunk; `score` is missing when the retriever does not score results. */
+interface ScoredCandidate {
+  document: DocumentInterface;
+  score?: number;
+}
+
+export interface RetrievalOptions {
+  /** Only chunks whose ACL metadata satisfies these conditions are returned. */
+  access?: AccessConditions;
+}
 
 export interface RetrieverLike {
-  invoke(input: string, config?: RunnableConfig): Promise<DocumentInterface[]>;
+  invoke(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<DocumentInterface[]>;
+  /** Optional scored variant; retrievers without it skip relevance thresholds. */
+  invokeWithScores?(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<ScoredDocument[]>;
+}
+
+export interface Reranker {
+  rerank(query: string, candidates: ScoredDocument[], config?: RunnableConfig): Promise<ScoredDocument[]>;
+}
+
+export interface RelevanceOptions {
+  reranker?: Reranker;
+  /** Chunks scoring below this are discarded; when none remain the LLM is not called. */
+  minScore?: number;
+  /** Maximum chunks kept after reranking. */
+  topN?: number;
+  /** Suggested next step returned when the question is not covered by policy. */
+  escalation: string;
 }
 
 export interface DomainAgentOptions {
   intent: DepartmentIntent;
   name: string;
   styleGuide: string;
+  /** Department intents this agent may hand off to, taken from the department registry. */
+  handoffIntents: DepartmentIntent[];
+  citations?: CitationVerificationOptions;
+  relevance?: RelevanceOptions;
+  /** Set when some of the department's chunks carry ACLs; enables auditing of withheld content. */
+  restrictedContent?: boolean;
+  tools?: ToolRegistry;
+  /** Tool calls allowed per invocation before the agent must answer; defaults to 3. */
+  maxToolCalls?: number;
 }
 
 export interface DomainAgentInput {
-  llm: ChatOpenAI;
+  llm: ChatModelLike;
   retriever: RetrieverLike;
   options: DomainAgentOptions;
 }
@@ -26,6 +74,23 @@ export interface DomainAgentInput {
 export interface DomainAgentResult {
   text: string;
   sources: string[];
+  citationStatus: CitationStatus;
+  /** Citations the LLM returned that were not found in the retrieved documents. */
+  unverifiedCitations: string[];
+  /** Retrieved chunks kept for the prompt, with their final relevance scores when known. */
+  retrieved: RetrievedChunk[];
+  /** Set when no chunk cleared the department's relevance threshold. */
+  notCovered?: {
+    bestScore?: number;
+    escalation: string;
+  };
+  /** Tools the agent called, in order, with their validated inputs and results. */
+  toolCalls?: ToolCallRecord[];
+  /** Relevant chunks withheld from the caller; `refused` when nothing they may read was relevant. */
+  restricted?: {
+    chunks: RestrictedChunk[];
+    refused: boolean;
+  };
   handoff?: {
     intent: DepartmentIntent;
     reason: string;
@@ -33,43 +98,92 @@ export interface DomainAgentResult {
   };
 }
 
-export class DomainRagAgent {
-  private readonly prompt: ChatPromptTemplate;
-  private readonly parser = StructuredOutputParser.fromZodSchema(
+export interface RetrievedChunk {
+  label: string;
+  content: string;
+  section?: string;
+  source?: string;
+  score?: number;
+  /** The chunk is limited to specific roles or regions. */
+  restricted?: boolean;
+}
+
+export interface DomainAgentInvokeOptions {
+  /** Reviewer feedback from a failed quality check; switches the agent to a stricter prompt. */
+  reviewFeedback?: string;
+  /** Caller whose roles and region limit retrieval; without one only unrestricted chunks are used. */
+  caller?: CallerIdentity;
+  /** Language to answer in (e.g. `Spanish`) when the employee did not write in the corpus language. */
+  answerLanguage?: string;
+}
+
+interface DomainAgentOutput {
+  answer: string;
+  citations: string[];
+  follow_up?: {
+    intent: DepartmentIntent;
+    reason: string;
+    context_package?: string;
+  };
+  tool_call?: {
+    name: string;
+    input: Record<string, unknown>;
+  };
+}
+
+function createOutputParser(handoffIntents: DepartmentIntent[], toolNames: string[]) {
+  const [firstTool, ...otherTools] = toolNames;
+  return StructuredOutputParser.fromZodSchema(
     z.object({
       answer: z.string(),
       citations: z.array(z.string()),
       follow_up: z
         .object({
-          intent: z.enum(["hr", "tech", "finance", "unknown"] as const),
+          intent: z.enum([UNKNOWN_INTENT, ...handoffIntents]),
           reason: z.string(),
           context_package: z.string().optional()
         })
-        .optional()
+        .optional(),
+      ...(firstTool
+        ? {
+            tool_call: z
+              .object({
+                name: z.enum([firstTool, ...otherTools]),
+                input: z.record(z.unknown())
+              })
+              .optional()
+          }
+        : {})
     })
   );
+}
+
+export class DomainRagAgent {
+  private readonly prompt: ChatPromptTemplate;
+  private readonly parser: OutputParserLike<DomainAgentOutput>;
   private readonly options: DomainAgentOptions;
 
   private constructor(
-    private readonly llm: ChatOpenAI,
+    private readonly llm: ChatModelLike,
     private readonly retriever: RetrieverLike,
     options: DomainAgentOptions,
     prompt: ChatPromptTemplate
   ) {
     this.prompt = prompt;
     this.options = options;
+    this.parser = createOutputParser(options.handoffIntents, options.tools?.names ?? []);
   }
 
   static async init({ llm, retriever, options }: DomainAgentInput): Promise<DomainRagAgent> {
     const prompt = ChatPromptTemplate.fromMessages([
       [
         "system",
-        `You are ${options.name}. Follow this style guide: ${options.styleGuide}. ` +
-          "Ground every reply in the provided context, cite KB identifiers when possible, and say you do not know if the answer is missing. If another department must help, clearly state that in the follow_up section of the JSON response described by {format_instructions}."
+        "You are {agent_name}. Follow this style guide: {style_guide}. " +
+          "Ground every reply in the provided context, cite KB identifiers when possible, and say you do not know if the answer is missing. If another department must help, clearly state that in the follow_up section of the JSON response described by {format_instructions}.{tool_directive}{quality_directive}{language_directive}"
       ],
       [
         "human",
-        "Conversation so far:\n{history}\n\nQuestion: {question}\n\nContext:\n{context}\n\nAdhere to: {format_instructions}"
+        "Earlier in this session:\n{conversation}\n\nConversation so far:\n{history}\n\nQuestion: {question}\n\nContext:\n{context}{tool_results}\n\nAdhere to: {format_instructions}"
       ]
     ]);
 
@@ -79,29 +193,86 @@ export class DomainRagAgent {
   async invoke(
     question: string,
     history = "No prior agent responses.",
-    config?: RunnableConfig
+    config?: RunnableConfig,
+    conversation = "No prior conversation.",
+    invokeOptions: DomainAgentInvokeOptions = {}
   ): Promise<DomainAgentResult> {
-    const sourceDocs = await this.retriever.invoke(question, config);
+    const access = accessConditions(invokeOptions.caller);
+    const { candidates, withheld } = await this.retrieve(question, config, access);
+    const relevance = this.options.relevance;
+    const minScore = relevance?.minScore;
+    const clearsThreshold = ({ score }: { score?: number }) =>
+      minScore === undefined || score === undefined || score >= minScore;
+    const relevant = candidates.filter(clearsThreshold).slice(0, relevance?.topN ?? candidates.length);
+    const restricted: RestrictedChunk[] = withheld
+      .filter(clearsThreshold)
+      .map(({ document }, idx) => ({ label: this.sourceLabel(document, idx), ...aclOf(document.metadata) }));
+    if (!relevant.length && restricted.length) {
+      return this.restrictedResult(restricted);
+    }
+    // Agents with tools may still act on requests the documentation does not cover.
+    if (!relevant.length && relevance && minScore !== undefined && !this.options.tools?.size) {
+      return this.notCoveredResult(candidates, relevance);
+    }
+    const sourceDocs = relevant.map(({ document }) => document);
+    const retrieved = relevant.map(({ document, score }, idx) => this.describeChunk(document, idx, score));
     const context = this.formatContext(sourceDocs);
-    const messages = await this.prompt.formatMessages({
-      context,
-      question,
-      history,
-      format_instructions: this.parser.getFormatInstructions()
-    });
-    const llmResponse = await this.llm.invoke(messages, config);
-    const parsed = await this.parser.parse(this.extractAnswer(llmResponse));
+    const tools = this.options.tools;
+    const maxToolCalls = this.options.maxToolCalls ?? 3;
+    const toolCalls: ToolCallRecord[] = [];
+    let parsed: DomainAgentOutput;
+    // Bounded tool loop: each reply may request one tool call, whose result is fed
+    // back until the agent answers or the budget is spent.
+    while (true) {
+      const messages = await this.prompt.formatMessages({
+        context,
+        question,
+        history,
+        conversation,
+        agent_name: this.options.name,
+        style_guide: this.options.styleGuide,
+        tool_directive: this.toolDirective(toolCalls.length < maxToolCalls),
+        tool_results: formatToolResults(toolCalls),
+        quality_directive: invokeOptions.reviewFeedback
+          ? "\n\nA reviewer rejected your previous draft. Use only statements the context supports, attach the exact KB ID to every claim, answer every part of the question, and keep a professional policy tone. Reviewer feedback:\n" +
+            invokeOptions.reviewFeedback
+          : "",
+        language_directive: languageDirective(invokeOptions.answerLanguage),
+        format_instructions: this.parser.getFormatInstructions()
+      });
+      parsed = await invokeStructured(this.llm, messages, this.parser, config);
+      if (!parsed.tool_call || !tools || toolCalls.length >= maxToolCalls) {
+        break;
+      }
+      const { name, input } = parsed.tool_call;
+      toolCalls.push(
+        await RunnableLambda.from((toolInput: unknown) =>
+          tools.call(name, toolInput, { caller: invokeOptions.caller })
+        ).invoke(input, { ...config, runName: `tool:${name}` })
+      );
+    }
+    const verification = verifyCitations(parsed.citations, sourceDocs);
+    const citationMode = this.options.citations?.mode ?? "drop";
+    const citedSources =
+      citationMode === "drop" ? verification.verified : [...verification.verified, ...verification.rejected];
+    const grounded = verification.verified.length > 0 || toolCalls.some((call) => call.error === undefined);
     return {
-      text: parsed.answer,
+      text:
+        !grounded && this.options.citations?.requireGrounding
+          ? `I don't know. The ${this.options.name} could not find policy documentation that supports an answer to this question.`
+          : parsed.answer ||
+            `The ${this.options.name} could not complete this request with the available tools.`,
       sources:
-        parsed.citations.length > 0
-          ? parsed.citations
-          : sourceDocs.map((doc, idx) => {
-              const source = doc.metadata?.source;
-              return typeof source === "string" ? source : `chunk-${idx}`;
-            }),
+        citedSources.length > 0
+          ? citedSources
+          : sourceDocs.map((doc, idx) => this.sourceLabel(doc, idx)),
+      citationStatus: verification.status,
+      unverifiedCitations: verification.rejected,
+      retrieved,
+      ...(toolCalls.length ? { toolCalls } : {}),
+      ...(restricted.length ? { restricted: { chunks: restricted, refused: false } } : {}),
       handoff:
-        parsed.follow_up && parsed.follow_up.intent !== "unknown"
+        parsed.follow_up && parsed.follow_up.intent !== UNKNOWN_INTENT
           ? {
               intent: parsed.follow_up.intent,
               reason: parsed.follow_up.reason,
@@ -111,38 +282,120 @@ export class DomainRagAgent {
     };
   }
 
+  /**
+   * Retrieves candidates with scores when the retriever supports them, then lets the
+   * optional reranker reorder and rescore them. Departments with restricted content
+   * retrieve once without ACL filtering and split the results, so the chunks the caller
+   * was denied (`withheld`, kept for auditing) are scored on the same scale as the rest.
+   */
+  private async retrieve(
+    question: string,
+    config: RunnableConfig | undefined,
+    access: AccessConditions
+  ): Promise<{ candidates: ScoredCandidate[]; withheld: ScoredCandidate[] }> {
+    const options: RetrievalOptions = this.options.restrictedContent ? {} : { access };
+    let retrieved: ScoredCandidate[];
+    if (!this.retriever.invokeWithScores) {
+      const documents = await this.retriever.invoke(question, config, options);
+      retrieved = documents.map((document) => ({ document }));
+    } else {
+      const scored = await this.retriever.invokeWithScores(question, config, options);
+      const reranker = this.options.relevance?.reranker;
+      retrieved = reranker ? await reranker.rerank(question, scored, config) : scored;
+    }
+    if (!this.options.restrictedContent) {
+      return { candidates: retrieved, withheld: [] };
+    }
+    const candidates: ScoredCandidate[] = [];
+    const withheld: ScoredCandidate[] = [];
+    for (const candidate of retrieved) {
+      (matchesAccessConditions(candidate.document.metadata, access) ? candidates : withheld).push(candidate);
+    }
+    return { candidates, withheld };
+  }
+
+  /** Deterministic refusal used instead of an LLM call when only restricted content is relevant. */
+  private restrictedResult(restricted: RestrictedChunk[]): DomainAgentResult {
+    const escalation =
+      this.options.relevance?.escalation ?? `Contact the ${this.options.name} team if you need access.`;
+    return {
+      text: `The policy documentation that covers this question is restricted and not available to you. ${escalation}`,
+      sources: [],
+      citationStatus: "missing",
+      unverifiedCitations: [],
+      retrieved: [],
+      restricted: { chunks: restricted, refused: true }
+    };
+  }
+
+  /** Deterministic answer used instead of an LLM call when nothing is relevant enough. */
+  private notCoveredResult(
+    candidates: ScoredCandidate[],
+    relevance: RelevanceOptions
+  ): DomainAgentResult {
+    const scores = candidates.map(({ score }) => score).filter((score): score is number => score !== undefined);
+    const bestScore = scores.length ? Math.max(...scores) : undefined;
+    return {
+      text: `This question is not covered by the policy documentation available to the ${this.options.name}. ${relevance.escalation}`,
+      sources: [],
+      citationStatus: "missing",
+      unverifiedCitations: [],
+      retrieved: candidates.map(({ document, score }, idx) => this.describeChunk(document, idx, score)),
+      notCovered: { bestScore, escalation: relevance.escalation }
+    };
+  }
+
+  private toolDirective(toolsAvailable: boolean): string {
+    const tools = this.options.tools;
+    if (!tools?.size) {
+      return "";
+    }
+    if (!toolsAvailable) {
+      return "\n\nThe tool budget for this question is spent. Answer now from the context and tool results, and leave tool_call unset.";
+    }
+    return (
+      "\n\nYou can act through these tools:\n" +
+      tools.describe() +
+      "\nTo call one, set tool_call to its name and input and leave answer empty; the result is returned to you before you answer. " +
+      "Request one tool per reply, and report action outcomes only from tool results, never invent them."
+    );
+  }
+
+  private describeChunk(doc: DocumentInterface, idx: number, score?: number): RetrievedChunk {
+    const section = doc.metadata?.section;
+    const source = doc.metadata?.source;
+    return {
+      label: this.sourceLabel(doc, idx),
+      content: doc.pageContent,
+      ...(typeof section === "string" ? { section } : {}),
+      ...(typeof source === "string" ? { source } : {}),
+      ...(score !== undefined ? { score } : {}),
+      ...(isRestricted(doc.metadata) ? { restricted: true } : {})
+    };
+  }
+
   private formatContext(docs: DocumentInterface[]): string {
     if (!docs.length) {
       return "No matching documents.";
     }
     return docs
       .map((doc, idx) => {
-        const sourceLabel = doc.metadata?.source ?? `chunk-${idx}`;
-        return `Source: ${sourceLabel}\n${doc.pageContent}`;
+        const section = doc.metadata?.section;
+        const source = doc.metadata?.source;
+        const details = [section, source].filter((value) => typeof value === "string").join(", ");
+        const label = details ? `${this.sourceLabel(doc, idx)} (${details})` : this.sourceLabel(doc, idx);
+        return `Source: ${label}\n${doc.pageContent}`;
       })
       .join("\n\n---\n\n");
   }
 
-  private extractAnswer(message: BaseMessage): string {
-    const content = message.content;
-    if (typeof content === "string") {
-      return content;
-    }
-    if (Array.isArray(content)) {
-      return content
-        .map((chunk) => {
-          if (typeof chunk === "string") {
-            return chunk;
-          }
-          if ("text" in chunk && typeof chunk.text === "string") {
-            return chunk.text;
-          }
-          return "";
-        })
-        .join("")
-        .trim();
+  private sourceLabel(doc: DocumentInterface, idx: number): string {
+    const kbId = doc.metadata?.kb_id;
+    if (typeof kbId === "string" && kbId) {
+      return kbId;
     }
-    return "";
+    const source = doc.metadata?.source;
+    return typeof source === "string" ? source : `chunk-${idx}`;
   }
 
   get intent(): DepartmentIntent {
@@ -153,3 +406,24 @@ export class DomainRagAgent {
     return this.options.name;
   }
 }
+
+/**
+ * Answers follow the employee's language while citations stay verbatim, so citation
+ * verification still matches them against the retrieved chunks.
+ */
+function languageDirective(language?: string): string {
+  return language
+    ? `\n\nThe employee wrote in ${language}. Write the answer and any follow_up reason in ${language}, but copy KB identifiers, citations, and section names exactly as they appear in the context; never translate them.`
+    : "";
+}
+
+function formatToolResults(toolCalls: ToolCallRecord[]): string {
+  if (!toolCalls.length) {
+    return "";
+  }
+  const lines = toolCalls.map(
+    ({ tool, input, output, error }) =>
+      `- ${tool}(${JSON.stringify(input)}) → ${error ? `error: ${error}` : JSON.stringify(output)}`
+  );
+  return `\n\nTool results:\n${lines.join("\n")}`;
+}
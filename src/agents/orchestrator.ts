@@ -1,79 +1,124 @@
 import { ChatPromptTemplate } from "@langchain/core/prompts";
-import type { ChatOpenAI } from "@langchain/openai";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
 import { StructuredOutputParser } from "langchain/output_parsers";
 import { z } from "zod";
 import type { RunnableConfig } from "@langchain/core/runnables";
-import type { BaseMessage } from "@langchain/core/messages";
-import { DepartmentIntent } from "./types.js";
+import { DepartmentIntent, UNKNOWN_INTENT } from "./types.js";
+import type { DepartmentRegistry } from "./department_registry.js";
 
-const schema = z.object({
-  intents: z.array(z.enum(["hr", "tech", "finance", "unknown"] as const)).min(1).max(3),
-  confidence: z.number().min(0).max(1),
-  reasoning: z.string().min(10)
-});
+export interface ClassificationCandidate {
+  intent: DepartmentIntent;
+  confidence: number;
+}
+
+export interface OrchestratorResult {
+  intents: DepartmentIntent[];
+  confidence: number;
+  reasoning: string;
+  /** Departments that could plausibly own the question, most likely first. */
+  candidates?: ClassificationCandidate[];
+  /** Question that would tell the candidates apart, used when confidence is low. */
+  clarifyingQuestion?: string;
+}
 
-export type OrchestratorResult = z.infer<typeof schema>;
+/** A clarifying question the user already answered, fed into the second classification pass. */
+export interface ClarificationAnswer {
+  question: string;
+  candidates: DepartmentIntent[];
+  answer: string;
+}
 
-const orchestratorParser = StructuredOutputParser.fromZodSchema(schema);
+interface OrchestratorOutput {
+  intents: DepartmentIntent[];
+  confidence: number;
+  reasoning: string;
+  candidates?: ClassificationCandidate[];
+  clarifying_question?: string;
+}
+
+function createOrchestratorParser(registry: DepartmentRegistry) {
+  return StructuredOutputParser.fromZodSchema(
+    z.object({
+      intents: z.array(z.enum(registry.intentsWithUnknown)).min(1).max(3),
+      confidence: z.number().min(0).max(1),
+      reasoning: z.string().min(10),
+      candidates: z
+        .array(
+          z.object({
+            intent: z.enum(registry.intentsWithUnknown),
+            confidence: z.number().min(0).max(1)
+          })
+        )
+        .max(3)
+        .optional(),
+      clarifying_question: z.string().optional()
+    })
+  );
+}
 
 export class OrchestratorAgent {
-  private readonly parser = orchestratorParser;
+  private readonly parser: OutputParserLike<OrchestratorOutput>;
   private readonly prompt: ChatPromptTemplate;
 
-  constructor(private readonly llm: ChatOpenAI) {
-    const formatInstructions = this.parser.getFormatInstructions();
+  constructor(
+    private readonly llm: ChatModelLike,
+    private readonly registry: DepartmentRegistry
+  ) {
+    this.parser = createOrchestratorParser(registry);
     this.prompt = ChatPromptTemplate.fromMessages([
       [
         "system",
-        "You are the routing orchestrator for the employee helpdesk. Identify whether a question spans multiple departments (hr, tech, finance, unknown) and order the intents in the sequence they should be engaged. Always mention unknown if nothing fits."
+        "You are the routing orchestrator for the employee helpdesk. The supported departments are:\n{departments}\n\nIdentify whether a question spans multiple departments ({intent_keys}) and order the intents in the sequence they should be engaged. Always mention unknown if nothing fits. " +
+          "Also list up to three candidate departments that could plausibly own the question with your confidence in each (leave candidates empty when the question is clearly out of scope), and write one short clarifying_question that would tell the candidates apart."
       ],
       [
         "human",
-        "Question: {question}\n\nReturn JSON that follows: {format_instructions}"
+        "Conversation so far:\n{conversation}\n\nQuestion: {question}{clarification}{language_directive}\n\nReturn JSON that follows: {format_instructions}"
       ]
     ]);
   }
 
-  async classify(question: string, config?: RunnableConfig): Promise<OrchestratorResult> {
+  async classify(
+    question: string,
+    config?: RunnableConfig,
+    conversation = "No prior conversation.",
+    clarification?: ClarificationAnswer,
+    answerLanguage?: string
+  ): Promise<OrchestratorResult> {
     const messages = await this.prompt.formatMessages({
       question,
+      conversation,
+      clarification: clarification
+        ? `\n\nThe question was ambiguous, so the user was asked: "${clarification.question}" (candidate departments: ${clarification.candidates.join(", ")}). ` +
+          `They answered: "${clarification.answer}". Use their answer to choose the departments.`
+        : "",
+      language_directive: answerLanguage
+        ? `\n\nThe employee writes in ${answerLanguage}, so write the clarifying_question in ${answerLanguage}.`
+        : "",
+      departments: this.registry.describe(),
+      intent_keys: this.registry.intentsWithUnknown.join(", "),
       format_instructions: this.parser.getFormatInstructions()
     });
-    const response = await this.llm.invoke(messages, config);
-    return (await this.parser.parse(this.extractText(response))) as OrchestratorResult;
+    const parsed = await invokeStructured(this.llm, messages, this.parser, config);
+    const candidates = (parsed.candidates ?? []).filter(({ intent }) => this.registry.has(intent));
+    return {
+      intents: parsed.intents,
+      confidence: parsed.confidence,
+      reasoning: parsed.reasoning,
+      ...(candidates.length ? { candidates } : {}),
+      ...(parsed.clarifying_question?.trim() ? { clarifyingQuestion: parsed.clarifying_question.trim() } : {})
+    };
   }
 
-  static resolveOrderedIntents(result: OrchestratorResult): DepartmentIntent[] {
+  resolveOrderedIntents(result: OrchestratorResult): DepartmentIntent[] {
     const unique: DepartmentIntent[] = [];
     for (const candidate of result.intents) {
-      const normalized: DepartmentIntent =
-        candidate === "hr" || candidate === "tech" || candidate === "finance" ? candidate : "unknown";
+      const normalized: DepartmentIntent = this.registry.has(candidate) ? candidate : UNKNOWN_INTENT;
       if (!unique.includes(normalized)) {
         unique.push(normalized);
       }
     }
     return unique;
   }
-
-  private extractText(message: BaseMessage): string {
-    const content = message.content;
-    if (typeof content === "string") {
-      return content;
-    }
-    if (Array.isArray(content)) {
-      return content
-        .map((chunk) => {
-          if (typeof chunk === "string") {
-            return chunk;
-          }
-          if ("text" in chunk && typeof chunk.text === "string") {
-            return chunk.text;
-          }
-          return "";
-        })
-        .join("")
-        .trim();
-    }
-    return "";
-  }
 }
@@ -0,0 +1,45 @@
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+const schema = z.object({
+  standalone_question: z.string().min(3)
+});
+
+const rewriterParser: OutputParserLike<z.infer<typeof schema>> = StructuredOutputParser.fromZodSchema(schema);
+
+/**
+ * Rewrites follow-up questions ("what about for contractors?") into standalone queries
+ * using the session transcript, so classification and retrieval never search on a bare
+ * pronoun.
+ */
+export class QueryRewriter {
+  private readonly parser = rewriterParser;
+  private readonly prompt: ChatPromptTemplate;
+
+  constructor(private readonly llm: ChatModelLike) {
+    this.prompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        "You rewrite employee follow-up questions for a helpdesk search system. Using the conversation, resolve pronouns and implicit references so the question can be understood on its own. Keep the user's intent and wording where possible, do not answer the question, and return the question unchanged if it is already standalone."
+      ],
+      [
+        "human",
+        "Conversation so far:\n{conversation}\n\nFollow-up question: {question}\n\nReturn JSON that follows: {format_instructions}"
+      ]
+    ]);
+  }
+
+  async rewrite(question: string, conversation: string, config?: RunnableConfig): Promise<string> {
+    const messages = await this.prompt.formatMessages({
+      question,
+      conversation,
+      format_instructions: this.parser.getFormatInstructions()
+    });
+    const parsed = await invokeStructured(this.llm, messages, this.parser, config);
+    return parsed.standalone_question.trim() || question;
+  }
+}
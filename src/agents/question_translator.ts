@@ -0,0 +1,150 @@
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code, e.g. `es`. */
+  code: string;
+  /** English name used in prompts, e.g. `Spanish`. */
+  name: string;
+}
+
+export interface TranslatedQuestion {
+  language: DetectedLanguage;
+  /** The question in the corpus language; unchanged when it was already written in it. */
+  question: string;
+}
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  de: "German",
+  pt: "Portuguese",
+  fr: "French",
+  it: "Italian",
+  nl: "Dutch"
+};
+
+/**
+ * Frequent function words per language. Words shared between languages (`do`, `das`, `que`,
+ * `sobre`) are left out so a hit is evidence for one language only.
+ */
+const STOPWORDS: Record<string, Set<string>> = {
+  en: words("the is are how what do does i my can to of and with when where who should need get about"),
+  es: words("el los las es cómo qué mi mis puedo del con una tengo cuándo dónde necesito y hay"),
+  de: words("der die das ist wie was ich mein meine kann für und mit wann wo ein eine nicht brauche bei"),
+  pt: words("os é meu minha posso da dos com um uma quando onde preciso não e tenho")
+};
+
+function words(list: string): Set<string> {
+  return new Set(list.split(" "));
+}
+
+/**
+ * Cheap stopword vote used to skip the LLM for questions that are plainly in the
+ * corpus language. Returns a code only when one language clearly wins.
+ */
+export function guessLanguage(text: string): string | undefined {
+  const tokens = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const scores = Object.entries(STOPWORDS)
+    .map(([code, stopwords]) => ({ code, hits: tokens.filter((word) => stopwords.has(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = scores;
+  return best.hits >= 2 && best.hits >= 2 * runnerUp.hits ? best.code : undefined;
+}
+
+export function describeLanguage(code: string): DetectedLanguage {
+  const normalized = code.trim().toLowerCase();
+  return { code: normalized, name: LANGUAGE_NAMES[normalized] ?? normalized };
+}
+
+const PRESERVE_RULE =
+  "Keep KB identifiers (such as HR-LEAVE-001), bracketed citations, placeholders such as [EMAIL_1] or [REDACTED_SSN], URLs, product and system names, and numbers exactly as written.";
+
+const translationSchema = z.object({
+  language_code: z.string().regex(/^[a-zA-Z]{2}$/),
+  translation: z.string().min(1)
+});
+
+const localizationSchema = z.object({
+  text: z.string().min(1)
+});
+
+const translationParser: OutputParserLike<z.infer<typeof translationSchema>> =
+  StructuredOutputParser.fromZodSchema(translationSchema);
+
+const localizationParser: OutputParserLike<z.infer<typeof localizationSchema>> =
+  StructuredOutputParser.fromZodSchema(localizationSchema);
+
+/**
+ * Detects the language of an employee's message and translates the search question
+ * into the corpus language, so classification and retrieval run against the
+ * playbooks' own wording. Also localizes the router's fixed responses.
+ */
+export class QuestionTranslator {
+  private readonly translatePrompt: ChatPromptTemplate;
+  private readonly localizePrompt: ChatPromptTemplate;
+
+  constructor(
+    private readonly llm: ChatModelLike,
+    readonly corpusLanguage: DetectedLanguage = describeLanguage("en")
+  ) {
+    this.translatePrompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        "You prepare employee helpdesk questions for a search system whose documents are written in {corpus_language}. Identify the language the employee wrote their message in as an ISO 639-1 code, then translate the search question into {corpus_language}. Return the search question unchanged if it is already in {corpus_language}. Do not answer it. " +
+          PRESERVE_RULE
+      ],
+      [
+        "human",
+        "Employee message: {message}\n\nSearch question: {question}\n\nReturn JSON that follows: {format_instructions}"
+      ]
+    ]);
+    this.localizePrompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        "Translate helpdesk responses into {language} for an employee. Keep the meaning and tone. " + PRESERVE_RULE
+      ],
+      ["human", "Response: {text}\n\nReturn JSON that follows: {format_instructions}"]
+    ]);
+  }
+
+  /**
+   * Detects the language of `message` (the employee's own words) and returns `question`
+   * (possibly rewritten from it) in the corpus language.
+   */
+  async translate(message: string, question: string, config?: RunnableConfig): Promise<TranslatedQuestion> {
+    if (guessLanguage(message) === this.corpusLanguage.code) {
+      return { language: this.corpusLanguage, question };
+    }
+    const messages = await this.translatePrompt.formatMessages({
+      message,
+      question,
+      corpus_language: this.corpusLanguage.name,
+      format_instructions: translationParser.getFormatInstructions()
+    });
+    const parsed = await invokeStructured(this.llm, messages, translationParser, config);
+    const language = describeLanguage(parsed.language_code);
+    return {
+      language,
+      question: language.code === this.corpusLanguage.code ? question : parsed.translation.trim() || question
+    };
+  }
+
+  /** Translates a fixed router response (caveats, refusals) into the employee's language. */
+  async localize(text: string, language: DetectedLanguage, config?: RunnableConfig): Promise<string> {
+    if (language.code === this.corpusLanguage.code) {
+      return text;
+    }
+    const messages = await this.localizePrompt.formatMessages({
+      text,
+      language: language.name,
+      format_instructions: localizationParser.getFormatInstructions()
+    });
+    const parsed = await invokeStructured(this.llm, messages, localizationParser, config);
+    return parsed.text.trim() || text;
+  }
+}
@@ -0,0 +1,138 @@
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { DepartmentIntent } from "./types.js";
+import type { DepartmentRegistry } from "./department_registry.js";
+
+interface SynthesizerOutput {
+  statements: SynthesizedStatement[];
+  conflicts: SynthesisConflict[];
+}
+
+function createSynthesizerParser(registry: DepartmentRegistry) {
+  const departmentEnum = z.enum(registry.intentsWithUnknown);
+  const schema = z.object({
+    statements: z
+      .array(
+        z.object({
+          text: z.string().min(1),
+          citations: z.array(z.string()),
+          departments: z.array(departmentEnum)
+        })
+      )
+      .min(1),
+    conflicts: z.array(
+      z.object({
+        departments: z.array(departmentEnum).min(2),
+        description: z.string().min(5)
+      })
+    )
+  });
+  return StructuredOutputParser.fromZodSchema(schema);
+}
+
+export interface SynthesisInput {
+  intent: DepartmentIntent;
+  agent: string;
+  text: string;
+  sources: string[];
+}
+
+export interface SynthesizedStatement {
+  text: string;
+  citations: string[];
+  departments: DepartmentIntent[];
+}
+
+export interface SynthesisConflict {
+  departments: DepartmentIntent[];
+  description: string;
+}
+
+export interface SynthesizedAnswer {
+  text: string;
+  statements: SynthesizedStatement[];
+  conflicts: SynthesisConflict[];
+}
+
+/**
+ * Merges several department answers into one response. Each statement keeps the
+ * citations of the department answers it came from (citations not present in any
+ * department's sources are dropped) and disagreements are reported as conflicts.
+ */
+export class SynthesizerAgent {
+  private readonly parser: OutputParserLike<SynthesizerOutput>;
+  private readonly prompt: ChatPromptTemplate;
+
+  constructor(
+    private readonly llm: ChatModelLike,
+    registry: DepartmentRegistry
+  ) {
+    this.parser = createSynthesizerParser(registry);
+    this.prompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        "You are the helpdesk synthesizer. Merge the department answers into one coherent, non-repetitive response for the employee. Every statement must list the citations from the department answers that support it and the departments it came from; never invent citations. When departments give incompatible guidance, keep both positions and record the disagreement in conflicts instead of silently choosing one.{language_directive}"
+      ],
+      [
+        "human",
+        "Question: {question}\n\nDepartment answers:\n{answers}\n\nReturn JSON that follows: {format_instructions}"
+      ]
+    ]);
+  }
+
+  async synthesize(
+    question: string,
+    inputs: SynthesisInput[],
+    config?: RunnableConfig,
+    answerLanguage?: string
+  ): Promise<SynthesizedAnswer> {
+    const answers = inputs
+      .map(
+        (input) =>
+          `[${input.intent}] ${input.agent}:\n${input.text}\nCitations: ${input.sources.join(", ") || "none"}`
+      )
+      .join("\n\n---\n\n");
+    const messages = await this.prompt.formatMessages({
+      question,
+      answers,
+      language_directive: answerLanguage
+        ? ` Write statements and conflict descriptions in ${answerLanguage}; copy citations exactly as given.`
+        : "",
+      format_instructions: this.parser.getFormatInstructions()
+    });
+    const parsed = await invokeStructured(this.llm, messages, this.parser, config);
+
+    const knownCitations = new Set(inputs.flatMap((input) => input.sources));
+    const statements: SynthesizedStatement[] = parsed.statements.map((statement) => ({
+      text: statement.text,
+      citations: statement.citations.filter((citation) => knownCitations.has(citation)),
+      departments: statement.departments
+    }));
+    const conflicts: SynthesisConflict[] = parsed.conflicts;
+
+    return {
+      text: renderSynthesis(statements, conflicts),
+      statements,
+      conflicts
+    };
+  }
+}
+
+function renderSynthesis(statements: SynthesizedStatement[], conflicts: SynthesisConflict[]): string {
+  const body = statements
+    .map((statement) =>
+      statement.citations.length ? `${statement.text} [${statement.citations.join(", ")}]` : statement.text
+    )
+    .join("\n");
+  if (!conflicts.length) {
+    return body;
+  }
+  const conflictLines = conflicts.map(
+    (conflict) => `- ${conflict.departments.join(" vs ")}: ${conflict.description}`
+  );
+  return `${body}\n\nConflicting guidance between departments:\n${conflictLines.join("\n")}`;
+}
@@ -1,4 +1,10 @@
-export type DepartmentIntent = "hr" | "tech" | "finance" | "unknown";
+/**
+ * Department intent keys are declared in the department registry (`departments.json`);
+ * `unknown` is always reserved for questions no department covers.
+ */
+export type DepartmentIntent = string;
+
+export const UNKNOWN_INTENT = "unknown";
 
 export interface AgentAnswer {
   intent: DepartmentIntent;
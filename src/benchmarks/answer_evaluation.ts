@@ -0,0 +1,353 @@
+import "dotenv/config";
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import type { Langfuse } from "langfuse";
+import type { CallbackHandler as LangfuseCallbackHandler } from "@langfuse/langchain";
+import {
+  configureLangfuse,
+  createLangfuseClient,
+  createMultiAgentRouter,
+  createRubricEvaluator
+} from "../multi_agent_system.js";
+import type { AgentTurn, MultiAgentRouter, RouteResult } from "../multi_agent_system.js";
+import { RUBRIC_DIMENSIONS } from "../evaluation/rubric_evaluator.js";
+import type { RubricEvaluation, RubricEvaluator } from "../evaluation/rubric_evaluator.js";
+import type { DepartmentIntent } from "../agents/types.js";
+import { InMemoryTicketAdapter } from "../escalation/escalation.js";
+import { citationHits, renderEvaluationMarkdown, summarizeEvaluation } from "./evaluation_report.js";
+import type { EvaluatedTurn, EvaluationCase, EvaluationReport, SkippedTurnReason } from "./evaluation_report.js";
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "..");
+
+export interface EvaluationItem {
+  id: string;
+  query: string;
+  referenceAnswer?: string;
+  expectedCitations?: string[];
+  expectedIntent?: DepartmentIntent[];
+}
+
+/**
+ * Reads a JSON array or JSONL file. Each entry needs `query` (or `question`) and may
+ * carry `id`, `reference_answer`, `expected_citations`, and `expected_intent`.
+ */
+export async function loadEvaluationDataset(datasetPath: string): Promise<EvaluationItem[]> {
+  const raw = await readFile(datasetPath, "utf8");
+  let entries: unknown[];
+  if (datasetPath.endsWith(".jsonl")) {
+    entries = raw
+      .split(/\r?\n/)
+      .map((line, idx) => ({ line: line.trim(), idx }))
+      .filter(({ line }) => line)
+      .map(({ line, idx }) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Evaluation dataset ${datasetPath} line ${idx + 1} is not valid JSON.`);
+        }
+      });
+  } else {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Evaluation dataset ${datasetPath} must be a JSON array or a .jsonl file.`);
+    }
+    entries = parsed;
+  }
+  return entries.map((entry: any, idx) => {
+    const query = entry?.query ?? entry?.question;
+    if (typeof query !== "string" || !query.trim()) {
+      throw new Error(`Evaluation dataset entry ${idx} needs a "query" string.`);
+    }
+    const expectedCitations = entry.expected_citations;
+    if (expectedCitations !== undefined && !isStringArray(expectedCitations)) {
+      throw new Error(`Evaluation dataset entry ${idx} has a non-string-array "expected_citations".`);
+    }
+    const expectedIntent = entry.expected_intent;
+    return {
+      id: typeof entry.id === "string" || typeof entry.id === "number" ? String(entry.id) : `item-${idx + 1}`,
+      query: query.trim(),
+      ...(typeof entry.reference_answer === "string" ? { referenceAnswer: entry.reference_answer } : {}),
+      ...(expectedCitations ? { expectedCitations } : {}),
+      ...(expectedIntent !== undefined
+        ? { expectedIntent: Array.isArray(expectedIntent) ? expectedIntent : [expectedIntent] }
+        : {})
+    };
+  });
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+export interface EvaluationRunOptions {
+  runName: string;
+  concurrency: number;
+  langfuseHandler?: LangfuseCallbackHandler;
+  /** Records the run as a Langfuse dataset run when provided. */
+  dataset?: LangfuseDatasetRecorder;
+}
+
+export async function runAnswerEvaluation(
+  router: MultiAgentRouter,
+  evaluator: RubricEvaluator,
+  items: EvaluationItem[],
+  options: EvaluationRunOptions
+): Promise<EvaluationReport> {
+  const cases = await mapWithConcurrency(items, options.concurrency, async (item): Promise<EvaluationCase> => {
+    const traceId = options.dataset?.startTrace(item);
+    try {
+      const result = await router.route(
+        item.query,
+        {
+          ...(options.langfuseHandler ? { callbacks: [options.langfuseHandler] } : {}),
+          metadata: { query_type: "evaluation", run_name: options.runName, item_id: item.id }
+        },
+        { traceId, bypassCache: true }
+      );
+      const evaluationCase = await evaluateResult(evaluator, item, result, traceId);
+      await options.dataset?.recordItem(item, evaluationCase);
+      return evaluationCase;
+    } catch (error: any) {
+      return {
+        id: item.id,
+        query: item.query,
+        predictedIntents: [],
+        answer: "",
+        turns: [],
+        citedSources: [],
+        ...(item.expectedCitations ? { expectedCitations: item.expectedCitations, citationHits: [] } : {}),
+        error: error?.message ?? String(error)
+      };
+    }
+  });
+  await options.dataset?.flush();
+  return summarizeEvaluation(options.runName, cases);
+}
+
+async function evaluateResult(
+  evaluator: RubricEvaluator,
+  item: EvaluationItem,
+  result: RouteResult,
+  traceId?: string
+): Promise<EvaluationCase> {
+  const turns: EvaluatedTurn[] = [];
+  for (const turn of result.turns) {
+    const skipped = skippedReason(turn);
+    if (skipped) {
+      turns.push({ intent: turn.intentTried, skipped });
+      continue;
+    }
+    let evaluation: RubricEvaluation;
+    try {
+      evaluation = await evaluator.evaluate(
+        {
+          question: result.standaloneQuestion,
+          answer: turn.response.text,
+          citations: turn.response.sources,
+          context: turn.response.retrieved,
+          referenceAnswer: item.referenceAnswer
+        },
+        { traceId }
+      );
+    } catch (error: any) {
+      // One ungradable turn should not discard the item's other scores.
+      turns.push({ intent: turn.intentTried, skipped: "unscored", error: error?.message ?? String(error) });
+      continue;
+    }
+    const weakest = [...RUBRIC_DIMENSIONS].sort(
+      (a, b) => evaluation.dimensions[a].score - evaluation.dimensions[b].score
+    )[0];
+    turns.push({
+      intent: turn.intentTried,
+      overall: evaluation.overall,
+      dimensions: Object.fromEntries(
+        RUBRIC_DIMENSIONS.map((dimension) => [dimension, evaluation.dimensions[dimension].score])
+      ) as EvaluatedTurn["dimensions"],
+      note: `${weakest}: ${evaluation.dimensions[weakest].reasoning}`
+    });
+  }
+
+  const citedSources = [
+    ...new Set([
+      ...result.turns.flatMap((turn) => turn.response.sources),
+      ...(result.synthesis?.statements.flatMap((statement) => statement.citations) ?? [])
+    ])
+  ];
+  return {
+    id: item.id,
+    query: item.query,
+    predictedIntents: result.classification.intents,
+    answer: result.synthesis?.text ?? result.turns.map((turn) => turn.response.text).join("\n\n"),
+    turns,
+    citedSources,
+    ...(item.expectedCitations
+      ? { expectedCitations: item.expectedCitations, citationHits: citationHits(item.expectedCitations, citedSources) }
+      : {}),
+    ...(traceId ? { traceId } : {})
+  };
+}
+
+/** Failed turns and deterministic "not covered" or access-refusal answers have no LLM output to grade. */
+function skippedReason(turn: AgentTurn): SkippedTurnReason | undefined {
+  if (turn.error) {
+    return "failed";
+  }
+  if (turn.response.restricted?.refused) {
+    return "refused";
+  }
+  return turn.response.notCovered ? "not_covered" : undefined;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const idx = next;
+      next += 1;
+      results[idx] = await fn(items[idx]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Mirrors an evaluation run into a Langfuse dataset: each item is upserted as a dataset
+ * item, gets its own trace carrying the rubric scores, and is linked to the named run.
+ */
+export class LangfuseDatasetRecorder {
+  private readonly traces = new Map<string, string>();
+
+  constructor(
+    private readonly langfuse: Langfuse,
+    private readonly datasetName: string,
+    private readonly runName: string
+  ) {}
+
+  async init(): Promise<void> {
+    await this.langfuse.createDataset({
+      name: this.datasetName,
+      description: "Offline answer evaluation dataset for the department router."
+    });
+  }
+
+  startTrace(item: EvaluationItem): string {
+    const trace = this.langfuse.trace({
+      name: "answer-evaluation",
+      input: { question: item.query },
+      metadata: { run_name: this.runName, item_id: item.id }
+    });
+    this.traces.set(item.id, trace.id);
+    return trace.id;
+  }
+
+  async recordItem(item: EvaluationItem, result: EvaluationCase): Promise<void> {
+    const traceId = this.traces.get(item.id);
+    if (!traceId) {
+      return;
+    }
+    this.langfuse.trace({ id: traceId, output: { answer: result.answer, sources: result.citedSources } });
+    if (result.expectedCitations?.length) {
+      this.langfuse.score({
+        traceId,
+        name: "citation_hit_rate",
+        value: (result.citationHits?.length ?? 0) / result.expectedCitations.length
+      });
+    }
+    const datasetItemId = `${this.datasetName}:${createHash("sha256").update(item.id + item.query).digest("hex").slice(0, 16)}`;
+    await this.langfuse.createDatasetItem({
+      datasetName: this.datasetName,
+      id: datasetItemId,
+      input: { question: item.query },
+      expectedOutput: {
+        ...(item.referenceAnswer ? { answer: item.referenceAnswer } : {}),
+        ...(item.expectedCitations ? { citations: item.expectedCitations } : {}),
+        ...(item.expectedIntent ? { intents: item.expectedIntent } : {})
+      },
+      metadata: { item_id: item.id }
+    });
+    await this.langfuse.createDatasetRunItem({
+      runName: this.runName,
+      datasetItemId,
+      traceId
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.langfuse.flushAsync();
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: "string", default: path.join(rootDir, "test_queries.json") },
+      out: { type: "string", default: path.join(rootDir, "reports") },
+      concurrency: { type: "string", default: "3" },
+      "run-name": { type: "string", default: `eval-${new Date().toISOString().replace(/[:.]/g, "-")}` },
+      "langfuse-dataset": { type: "string", default: process.env.LANGFUSE_EVAL_DATASET ?? "department-router-eval" }
+    }
+  });
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("--concurrency must be a positive integer.");
+  }
+  const runName = values["run-name"]!;
+
+  const items = await loadEvaluationDataset(path.resolve(values.dataset!));
+  const langfuse = createLangfuseClient();
+  const langfuseHandler = await configureLangfuse();
+  // Evaluation queries are not real requests, so their escalations stay in memory.
+  const router = await createMultiAgentRouter({ ticketAdapter: new InMemoryTicketAdapter() });
+  const evaluator = createRubricEvaluator(langfuse);
+  let dataset: LangfuseDatasetRecorder | undefined;
+  if (langfuse) {
+    dataset = new LangfuseDatasetRecorder(langfuse, values["langfuse-dataset"]!, runName);
+    await dataset.init();
+  }
+
+  console.log(`Evaluating ${items.length} items (concurrency ${concurrency})...`);
+  const report = await runAnswerEvaluation(router, evaluator, items, {
+    runName,
+    concurrency,
+    langfuseHandler,
+    dataset
+  });
+
+  console.table(
+    report.departments.map((summary) => ({
+      department: summary.department,
+      turns: summary.evaluatedTurns,
+      notCovered: summary.notCoveredTurns,
+      refused: summary.refusedTurns,
+      failed: summary.failedTurns,
+      unscored: summary.unscoredTurns,
+      overall: summary.meanOverall.toFixed(2)
+    }))
+  );
+  console.log(
+    `Mean overall ${report.meanOverall.toFixed(2)}/10 · citation hit rate ${
+      report.citationHitRate === null ? "n/a" : `${(report.citationHitRate * 100).toFixed(1)}%`
+    } · ${report.errors} failed`
+  );
+
+  const outDir = path.resolve(values.out!);
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, "answer-evaluation.json"), JSON.stringify(report, null, 2), "utf8");
+  await writeFile(path.join(outDir, "answer-evaluation.md"), renderEvaluationMarkdown(report), "utf8");
+  console.log(`Reports written to ${outDir}`);
+  if (dataset) {
+    console.log(`Recorded Langfuse dataset run "${runName}" on dataset "${values["langfuse-dataset"]}".`);
+  }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error("Answer evaluation failed", error);
+    process.exitCode = 1;
+  });
+}
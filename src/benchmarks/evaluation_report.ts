@@ -0,0 +1,225 @@
+import { RUBRIC_DIMENSIONS } from "../evaluation/rubric_evaluator.js";
+import type { RubricDimension } from "../evaluation/rubric_evaluator.js";
+import type { DepartmentIntent } from "../agents/types.js";
+
+export const SCORE_BUCKETS = ["1-2", "3-4", "5-6", "7-8", "9-10"] as const;
+
+/**
+ * Why a turn was not graded: the first three answers did not come from the LLM, and
+ * `unscored` turns had an answer the rubric evaluator failed to grade.
+ */
+export type SkippedTurnReason = "not_covered" | "refused" | "failed" | "unscored";
+
+export interface EvaluatedTurn {
+  intent: DepartmentIntent;
+  /** Set instead of scores when the turn had no LLM answer to grade. */
+  skipped?: SkippedTurnReason;
+  /** Mean rubric score; undefined when the turn was skipped. */
+  overall?: number;
+  dimensions?: Record<RubricDimension, number>;
+  /** Evaluator reasoning for the weakest dimension. */
+  note?: string;
+  /** Why the evaluator failed on an `unscored` turn. */
+  error?: string;
+}
+
+export interface EvaluationCase {
+  id: string;
+  query: string;
+  predictedIntents: DepartmentIntent[];
+  answer: string;
+  turns: EvaluatedTurn[];
+  citedSources: string[];
+  expectedCitations?: string[];
+  /** Expected citations found among the cited sources. */
+  citationHits?: string[];
+  traceId?: string;
+  error?: string;
+}
+
+export interface DepartmentScoreSummary {
+  department: DepartmentIntent;
+  evaluatedTurns: number;
+  notCoveredTurns: number;
+  /** Turns refused because only restricted content was relevant to the caller. */
+  refusedTurns: number;
+  /** Turns whose agent failed and returned a placeholder answer. */
+  failedTurns: number;
+  /** Answered turns the rubric evaluator could not grade. */
+  unscoredTurns: number;
+  meanOverall: number;
+  dimensionMeans: Record<RubricDimension, number>;
+  /** Count of evaluated turns per overall-score bucket. */
+  distribution: Record<(typeof SCORE_BUCKETS)[number], number>;
+}
+
+export interface WorstCase {
+  id: string;
+  query: string;
+  department: DepartmentIntent;
+  overall: number;
+  note?: string;
+}
+
+export interface EvaluationReport {
+  runName: string;
+  total: number;
+  errors: number;
+  evaluatedTurns: number;
+  meanOverall: number;
+  departments: DepartmentScoreSummary[];
+  /** Share of expected citations that were cited, across items that list any; null when none do. */
+  citationHitRate: number | null;
+  citationItems: number;
+  worstCases: WorstCase[];
+  cases: EvaluationCase[];
+}
+
+export function bucketFor(score: number): (typeof SCORE_BUCKETS)[number] {
+  const index = Math.min(SCORE_BUCKETS.length - 1, Math.max(0, Math.ceil(Math.round(score) / 2) - 1));
+  return SCORE_BUCKETS[index];
+}
+
+/** Matches expected KB IDs against cited sources case-insensitively. */
+export function citationHits(expected: string[], cited: string[]): string[] {
+  const citedUpper = cited.map((source) => source.toUpperCase());
+  return expected.filter((citation) => citedUpper.some((source) => source.includes(citation.toUpperCase())));
+}
+
+export function summarizeEvaluation(runName: string, cases: EvaluationCase[], worstCaseCount = 5): EvaluationReport {
+  const byDepartment = new Map<DepartmentIntent, EvaluatedTurn[]>();
+  for (const item of cases) {
+    for (const turn of item.turns) {
+      byDepartment.set(turn.intent, [...(byDepartment.get(turn.intent) ?? []), turn]);
+    }
+  }
+
+  const departments: DepartmentScoreSummary[] = [...byDepartment.entries()].map(([department, turns]) => {
+    const scored = turns.filter((turn) => turn.overall !== undefined);
+    const distribution = Object.fromEntries(SCORE_BUCKETS.map((bucket) => [bucket, 0])) as DepartmentScoreSummary["distribution"];
+    for (const turn of scored) {
+      distribution[bucketFor(turn.overall!)] += 1;
+    }
+    const dimensionMeans = Object.fromEntries(
+      RUBRIC_DIMENSIONS.map((dimension) => [dimension, mean(scored.map((turn) => turn.dimensions![dimension]))])
+    ) as Record<RubricDimension, number>;
+    return {
+      department,
+      evaluatedTurns: scored.length,
+      notCoveredTurns: countSkipped(turns, "not_covered"),
+      refusedTurns: countSkipped(turns, "refused"),
+      failedTurns: countSkipped(turns, "failed"),
+      unscoredTurns: countSkipped(turns, "unscored"),
+      meanOverall: mean(scored.map((turn) => turn.overall!)),
+      dimensionMeans,
+      distribution
+    };
+  });
+
+  const allScores = cases.flatMap((item) =>
+    item.turns.filter((turn) => turn.overall !== undefined).map((turn) => turn.overall!)
+  );
+  const worstCases = cases
+    .flatMap((item) =>
+      item.turns
+        .filter((turn) => turn.overall !== undefined)
+        .map((turn) => ({ id: item.id, query: item.query, department: turn.intent, overall: turn.overall!, note: turn.note }))
+    )
+    .sort((a, b) => a.overall - b.overall)
+    .slice(0, worstCaseCount);
+
+  const citationCases = cases.filter((item) => item.expectedCitations?.length);
+  const expectedTotal = citationCases.reduce((sum, item) => sum + item.expectedCitations!.length, 0);
+  const hitTotal = citationCases.reduce((sum, item) => sum + (item.citationHits?.length ?? 0), 0);
+
+  return {
+    runName,
+    total: cases.length,
+    errors: cases.filter((item) => item.error).length,
+    evaluatedTurns: allScores.length,
+    meanOverall: mean(allScores),
+    departments,
+    citationHitRate: expectedTotal ? hitTotal / expectedTotal : null,
+    citationItems: citationCases.length,
+    worstCases,
+    cases
+  };
+}
+
+function countSkipped(turns: EvaluatedTurn[], reason: SkippedTurnReason): number {
+  return turns.filter((turn) => turn.skipped === reason).length;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function renderEvaluationMarkdown(report: EvaluationReport): string {
+  const lines = [
+    `# Answer Evaluation: ${report.runName}`,
+    "",
+    `- Items: ${report.total} (${report.errors} failed)`,
+    `- Evaluated turns: ${report.evaluatedTurns}`,
+    `- Mean overall score: ${report.meanOverall.toFixed(2)}/10`,
+    `- Citation hit rate: ${
+      report.citationHitRate === null
+        ? "n/a (no expected citations)"
+        : `${(report.citationHitRate * 100).toFixed(1)}% over ${report.citationItems} items`
+    }`,
+    "",
+    "## Per-department scores",
+    "",
+    `| Department | Turns | Not covered | Refused | Failed | Unscored | Overall | ${RUBRIC_DIMENSIONS.join(" | ")} |`,
+    `| --- | --- | --- | --- | --- | --- | --- | ${RUBRIC_DIMENSIONS.map(() => "---").join(" | ")} |`,
+    ...report.departments.map(
+      (summary) =>
+        `| ${summary.department} | ${summary.evaluatedTurns} | ${summary.notCoveredTurns} | ${summary.refusedTurns} | ${summary.failedTurns} | ${summary.unscoredTurns} | ${formatMean(summary, summary.meanOverall)} | ${RUBRIC_DIMENSIONS.map((dimension) => formatMean(summary, summary.dimensionMeans[dimension])).join(" | ")} |`
+    ),
+    "",
+    "## Score distribution",
+    "",
+    `| Department | ${SCORE_BUCKETS.join(" | ")} |`,
+    `| --- | ${SCORE_BUCKETS.map(() => "---").join(" | ")} |`,
+    ...report.departments.map(
+      (summary) => `| ${summary.department} | ${SCORE_BUCKETS.map((bucket) => summary.distribution[bucket]).join(" | ")} |`
+    ),
+    "",
+    "## Worst cases",
+    ""
+  ];
+  if (!report.worstCases.length) {
+    lines.push("None.");
+  } else {
+    lines.push("| Item | Department | Score | Query | Note |", "| --- | --- | --- | --- | --- |");
+    for (const item of report.worstCases) {
+      lines.push(
+        `| ${item.id} | ${item.department} | ${item.overall.toFixed(2)} | ${escapeCell(item.query)} | ${escapeCell(item.note ?? "")} |`
+      );
+    }
+  }
+  const failures = report.cases.filter((item) => item.error);
+  if (failures.length) {
+    lines.push("", "## Failures", "", "| Item | Query | Error |", "| --- | --- | --- |");
+    for (const item of failures) {
+      lines.push(`| ${item.id} | ${escapeCell(item.query)} | ${escapeCell(item.error!)} |`);
+    }
+  }
+  const unscored = report.cases.flatMap((item) =>
+    item.turns.filter((turn) => turn.skipped === "unscored").map((turn) => ({ item, turn }))
+  );
+  if (unscored.length) {
+    lines.push("", "## Unscored turns", "", "| Item | Department | Error |", "| --- | --- | --- |");
+    for (const { item, turn } of unscored) {
+      lines.push(`| ${item.id} | ${turn.intent} | ${escapeCell(turn.error ?? "")} |`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatMean(summary: DepartmentScoreSummary, value: number): string {
+  return summary.evaluatedTurns ? value.toFixed(2) : "—";
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
@@ -0,0 +1,126 @@
+import "dotenv/config";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import { OrchestratorAgent } from "../agents/orchestrator.js";
+import type { DepartmentIntent } from "../agents/types.js";
+import { createResilientChatModel, loadDepartments } from "../multi_agent_system.js";
+import { renderRoutingMarkdown, scoreRouting } from "./routing_metrics.js";
+import type { RoutingCase, RoutingReport } from "./routing_metrics.js";
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "..");
+
+interface LabeledQuery {
+  query: string;
+  expected_intent: DepartmentIntent | DepartmentIntent[];
+}
+
+export async function loadRoutingDataset(
+  datasetPath: string,
+  labels: DepartmentIntent[]
+): Promise<LabeledQuery[]> {
+  const raw = JSON.parse(await readFile(datasetPath, "utf8"));
+  if (!Array.isArray(raw)) {
+    throw new Error(`Routing dataset ${datasetPath} must be a JSON array.`);
+  }
+  return raw.map((entry, idx) => {
+    const expected = Array.isArray(entry?.expected_intent) ? entry.expected_intent : [entry?.expected_intent];
+    if (typeof entry?.query !== "string" || !expected.length) {
+      throw new Error(`Routing dataset entry ${idx} needs a "query" string and "expected_intent".`);
+    }
+    for (const intent of expected) {
+      if (!labels.includes(intent)) {
+        throw new Error(`Routing dataset entry ${idx} has unsupported intent "${intent}".`);
+      }
+    }
+    return { query: entry.query, expected_intent: expected };
+  });
+}
+
+export async function runRoutingBenchmark(
+  orchestrator: OrchestratorAgent,
+  dataset: LabeledQuery[],
+  labels: DepartmentIntent[]
+): Promise<RoutingReport> {
+  const cases: RoutingCase[] = [];
+  for (const { query, expected_intent } of dataset) {
+    const expected = Array.isArray(expected_intent) ? expected_intent : [expected_intent];
+    try {
+      const classification = await orchestrator.classify(query, {
+        metadata: { query_type: "routing-benchmark" }
+      });
+      cases.push({
+        query,
+        expected,
+        predicted: orchestrator.resolveOrderedIntents(classification),
+        confidence: classification.confidence,
+        reasoning: classification.reasoning
+      });
+    } catch (error: any) {
+      cases.push({ query, expected, predicted: [], error: error?.message ?? String(error) });
+    }
+  }
+  return scoreRouting(cases, labels);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: "string", default: path.join(rootDir, "test_queries.json") },
+      out: { type: "string", default: path.join(rootDir, "reports") },
+      "min-accuracy": { type: "string", default: process.env.ROUTING_MIN_ACCURACY }
+    }
+  });
+  const minAccuracy = values["min-accuracy"] !== undefined ? Number(values["min-accuracy"]) : undefined;
+  if (minAccuracy !== undefined && (Number.isNaN(minAccuracy) || minAccuracy < 0 || minAccuracy > 1)) {
+    throw new Error("--min-accuracy must be a number between 0 and 1.");
+  }
+
+  const registry = await loadDepartments();
+  const labels = registry.intentsWithUnknown;
+  const dataset = await loadRoutingDataset(path.resolve(values.dataset!), labels);
+  const report = await runRoutingBenchmark(
+    new OrchestratorAgent(createResilientChatModel(), registry),
+    dataset,
+    labels
+  );
+
+  console.table(
+    report.perLabel.map((m) => ({
+      department: m.label,
+      precision: m.precision.toFixed(3),
+      recall: m.recall.toFixed(3),
+      f1: m.f1.toFixed(3),
+      support: m.support
+    }))
+  );
+  console.log("Confusion matrix (expected ↓ / predicted →):");
+  console.table(report.confusionMatrix);
+  console.log(
+    `Exact-match accuracy ${(report.accuracy * 100).toFixed(1)}% · primary ${(report.primaryAccuracy * 100).toFixed(1)}% · macro F1 ${report.macroF1.toFixed(3)}`
+  );
+  for (const item of report.misroutes) {
+    console.log(`Misroute: "${item.query}" expected ${item.expected.join(", ")} got ${item.predicted.join(", ") || item.error}`);
+  }
+
+  const outDir = path.resolve(values.out!);
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, "routing-benchmark.json"), JSON.stringify(report, null, 2), "utf8");
+  await writeFile(path.join(outDir, "routing-benchmark.md"), renderRoutingMarkdown(report), "utf8");
+  console.log(`Reports written to ${outDir}`);
+
+  if (minAccuracy !== undefined && report.accuracy < minAccuracy) {
+    console.error(
+      `Routing accuracy ${(report.accuracy * 100).toFixed(1)}% is below the ${(minAccuracy * 100).toFixed(1)}% threshold.`
+    );
+    process.exitCode = 1;
+  }
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error("Routing benchmark failed", error);
+    process.exitCode = 1;
+  });
+}
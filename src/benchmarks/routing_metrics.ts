@@ -0,0 +1,150 @@
+import { UNKNOWN_INTENT } from "../agents/types.js";
+import type { DepartmentIntent } from "../agents/types.js";
+
+export interface RoutingCase {
+  query: string;
+  expected: DepartmentIntent[];
+  predicted: DepartmentIntent[];
+  confidence?: number;
+  reasoning?: string;
+  error?: string;
+}
+
+export interface LabelMetrics {
+  label: DepartmentIntent;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface RoutingReport {
+  total: number;
+  /** Share of queries whose predicted intent set exactly matches the expected set. */
+  accuracy: number;
+  /** Share of queries whose first predicted intent matches the first expected intent. */
+  primaryAccuracy: number;
+  macroF1: number;
+  perLabel: LabelMetrics[];
+  labels: DepartmentIntent[];
+  /** Rows are expected primary intents, columns predicted primary intents. */
+  confusionMatrix: Record<DepartmentIntent, Record<DepartmentIntent, number>>;
+  misroutes: RoutingCase[];
+}
+
+/**
+ * Scores routing as a multi-label problem: each department counts as a hit when it
+ * appears in both the expected and predicted sets, so multi-intent expectations are
+ * credited per department rather than all-or-nothing.
+ */
+export function scoreRouting(cases: RoutingCase[], labels: DepartmentIntent[]): RoutingReport {
+  const confusionMatrix = Object.fromEntries(
+    labels.map((row) => [row, Object.fromEntries(labels.map((col) => [col, 0]))])
+  ) as RoutingReport["confusionMatrix"];
+
+  const counts = new Map(labels.map((label) => [label, { tp: 0, fp: 0, fn: 0 }]));
+  let exact = 0;
+  let primary = 0;
+  const misroutes: RoutingCase[] = [];
+
+  for (const item of cases) {
+    const expected = new Set(item.expected);
+    const predicted = new Set(item.predicted);
+    for (const label of labels) {
+      const count = counts.get(label)!;
+      if (expected.has(label) && predicted.has(label)) {
+        count.tp += 1;
+      } else if (predicted.has(label)) {
+        count.fp += 1;
+      } else if (expected.has(label)) {
+        count.fn += 1;
+      }
+    }
+
+    const expectedPrimary = item.expected[0] ?? UNKNOWN_INTENT;
+    const predictedPrimary = item.predicted[0] ?? UNKNOWN_INTENT;
+    confusionMatrix[expectedPrimary][predictedPrimary] += 1;
+    if (expectedPrimary === predictedPrimary) {
+      primary += 1;
+    }
+
+    const isExact =
+      !item.error &&
+      expected.size === predicted.size &&
+      [...expected].every((label) => predicted.has(label));
+    if (isExact) {
+      exact += 1;
+    } else {
+      misroutes.push(item);
+    }
+  }
+
+  const perLabel = labels.map((label) => {
+    const { tp, fp, fn } = counts.get(label)!;
+    const precision = tp + fp ? tp / (tp + fp) : 0;
+    const recall = tp + fn ? tp / (tp + fn) : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    return { label, precision, recall, f1, support: tp + fn };
+  });
+  const supported = perLabel.filter((metrics) => metrics.support > 0);
+
+  return {
+    total: cases.length,
+    labels,
+    accuracy: cases.length ? exact / cases.length : 0,
+    primaryAccuracy: cases.length ? primary / cases.length : 0,
+    macroF1: supported.length
+      ? supported.reduce((sum, metrics) => sum + metrics.f1, 0) / supported.length
+      : 0,
+    perLabel,
+    confusionMatrix,
+    misroutes
+  };
+}
+
+export function renderRoutingMarkdown(report: RoutingReport): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    "# Routing Benchmark",
+    "",
+    `- Queries: ${report.total}`,
+    `- Exact-match accuracy: ${pct(report.accuracy)}`,
+    `- Primary-intent accuracy: ${pct(report.primaryAccuracy)}`,
+    `- Macro F1: ${report.macroF1.toFixed(3)}`,
+    "",
+    "## Per-department metrics",
+    "",
+    "| Department | Precision | Recall | F1 | Support |",
+    "| --- | --- | --- | --- | --- |",
+    ...report.perLabel.map(
+      (m) => `| ${m.label} | ${m.precision.toFixed(3)} | ${m.recall.toFixed(3)} | ${m.f1.toFixed(3)} | ${m.support} |`
+    ),
+    "",
+    "## Confusion matrix (expected ↓ / predicted →, primary intent)",
+    "",
+    `| | ${report.labels.join(" | ")} |`,
+    `| --- | ${report.labels.map(() => "---").join(" | ")} |`,
+    ...report.labels.map(
+      (row) => `| **${row}** | ${report.labels.map((col) => report.confusionMatrix[row][col]).join(" | ")} |`
+    ),
+    "",
+    "## Misroutes",
+    ""
+  ];
+  if (!report.misroutes.length) {
+    lines.push("None.");
+  } else {
+    lines.push("| Query | Expected | Predicted | Note |", "| --- | --- | --- | --- |");
+    for (const item of report.misroutes) {
+      const note = item.error ? `error: ${item.error}` : item.reasoning ?? "";
+      lines.push(
+        `| ${escapeCell(item.query)} | ${item.expected.join(", ")} | ${item.predicted.join(", ") || "—"} | ${escapeCell(note)} |`
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
@@ -0,0 +1,210 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { DepartmentIntent } from "../agents/types.js";
+
+export interface AnswerCacheEntry<T> {
+  id: string;
+  question: string;
+  embedding: number[];
+  /** Departments that contributed to the answer; the entry is scoped to their KB versions. */
+  departments: DepartmentIntent[];
+  kbVersions: Record<DepartmentIntent, string>;
+  value: T;
+  createdAt: string;
+  expiresAt: number;
+}
+
+export interface AnswerCacheStore<T> {
+  list(): Promise<AnswerCacheEntry<T>[]>;
+  put(entry: AnswerCacheEntry<T>): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+export class InMemoryAnswerCacheStore<T> implements AnswerCacheStore<T> {
+  private readonly entries = new Map<string, AnswerCacheEntry<T>>();
+
+  async list(): Promise<AnswerCacheEntry<T>[]> {
+    return [...this.entries.values()];
+  }
+
+  async put(entry: AnswerCacheEntry<T>): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.entries.delete(id);
+    }
+  }
+}
+
+/**
+ * Persists all entries in a single JSON file, loaded lazily and rewritten atomically
+ * on each change. Suited to a single router process.
+ */
+export class FileAnswerCacheStore<T> implements AnswerCacheStore<T> {
+  private entries?: Map<string, AnswerCacheEntry<T>>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<AnswerCacheEntry<T>[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async put(entry: AnswerCacheEntry<T>): Promise<void> {
+    (await this.load()).set(entry.id, entry);
+    await this.save();
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const entries = await this.load();
+    for (const id of ids) {
+      entries.delete(id);
+    }
+    await this.save();
+  }
+
+  private async load(): Promise<Map<string, AnswerCacheEntry<T>>> {
+    if (this.entries) {
+      return this.entries;
+    }
+    let raw: AnswerCacheEntry<T>[] = [];
+    try {
+      raw = JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.warn(`Ignoring unreadable answer cache ${this.filePath}: ${error?.message ?? error}`);
+      }
+    }
+    this.entries = new Map(raw.map((entry) => [entry.id, entry]));
+    return this.entries;
+  }
+
+  private save(): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify([...(this.entries?.values() ?? [])]), "utf8");
+      await rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+}
+
+export interface SemanticCacheOptions {
+  /** Minimum cosine similarity between query embeddings for a hit. */
+  threshold?: number;
+  ttlMs?: number;
+}
+
+export interface CacheLookup<T> {
+  embedding: number[];
+  hit?: {
+    entry: AnswerCacheEntry<T>;
+    similarity: number;
+  };
+}
+
+/**
+ * Answer cache keyed by query-embedding similarity. Entries are valid only while every
+ * department they drew on still has the knowledge-base version they were built from,
+ * so re-indexing a department retires its cached answers.
+ */
+export class SemanticAnswerCache<T> {
+  private readonly threshold: number;
+  private readonly ttlMs: number;
+  private readonly kbVersions = new Map<DepartmentIntent, string>();
+
+  constructor(
+    private readonly embeddings: EmbeddingsInterface,
+    private readonly store: AnswerCacheStore<T>,
+    options: SemanticCacheOptions = {}
+  ) {
+    this.threshold = options.threshold ?? 0.92;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /** Records a department's current KB version, dropping its entries when the version changed. */
+  async setKnowledgeBaseVersion(department: DepartmentIntent, version: string): Promise<void> {
+    const previous = this.kbVersions.get(department);
+    this.kbVersions.set(department, version);
+    if (previous !== undefined && previous !== version) {
+      await this.invalidateDepartment(department);
+    }
+  }
+
+  async invalidateDepartment(department: DepartmentIntent): Promise<number> {
+    const stale = (await this.store.list()).filter((entry) => entry.departments.includes(department));
+    if (stale.length) {
+      await this.store.remove(stale.map((entry) => entry.id));
+    }
+    return stale.length;
+  }
+
+  /** `accepts` rejects entries that match by similarity but not by scope, e.g. answer language. */
+  async lookup(question: string, accepts: (value: T) => boolean = () => true): Promise<CacheLookup<T>> {
+    const embedding = await this.embeddings.embedQuery(question);
+    const now = Date.now();
+    const expired: string[] = [];
+    let best: CacheLookup<T>["hit"];
+    for (const entry of await this.store.list()) {
+      if (entry.expiresAt <= now || !this.isCurrent(entry)) {
+        expired.push(entry.id);
+        continue;
+      }
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= this.threshold && (!best || similarity > best.similarity) && accepts(entry.value)) {
+        best = { entry, similarity };
+      }
+    }
+    if (expired.length) {
+      await this.store.remove(expired);
+    }
+    return { embedding, ...(best ? { hit: best } : {}) };
+  }
+
+  async save(question: string, embedding: number[], departments: DepartmentIntent[], value: T): Promise<void> {
+    const kbVersions: Record<DepartmentIntent, string> = {};
+    for (const department of departments) {
+      const version = this.kbVersions.get(department);
+      if (version === undefined) {
+        // Without a known version the entry could never be invalidated safely.
+        return;
+      }
+      kbVersions[department] = version;
+    }
+    const createdAt = new Date();
+    await this.store.put({
+      id: randomUUID(),
+      question,
+      embedding,
+      departments,
+      kbVersions,
+      value,
+      createdAt: createdAt.toISOString(),
+      expiresAt: createdAt.getTime() + this.ttlMs
+    });
+  }
+
+  private isCurrent(entry: AnswerCacheEntry<T>): boolean {
+    return entry.departments.every((department) => this.kbVersions.get(department) === entry.kbVersions[department]);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let idx = 0; idx < a.length; idx += 1) {
+    dot += a[idx] * b[idx];
+    normA += a[idx] * a[idx];
+    normB += b[idx] * b[idx];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto";
+import { createInterface } from "readline";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { CallbackHandler as LangfuseCallbackHandler } from "@langfuse/langchain";
+import type { CallerIdentity } from "../access/access_control.js";
+import type { DepartmentIntent } from "../agents/types.js";
+import { traceIdFromConfig } from "../evaluation/rubric_evaluator.js";
+import type { MultiAgentRouter, RouteResult } from "../multi_agent_system.js";
+import { printClassification, printRetrievedChunks, printRouteResult } from "./route_output.js";
+import type { OutputLog } from "./route_output.js";
+
+export interface ReplOptions {
+  /** Departments `/department` accepts. */
+  departments: DepartmentIntent[];
+  langfuseHandler?: LangfuseCallbackHandler;
+  caller?: CallerIdentity;
+  /** Print each `RouteResult` as JSON on stdout; the prompt moves to stderr. */
+  json?: boolean;
+}
+
+interface ReplState {
+  sessionId: string;
+  forcedIntent?: DepartmentIntent;
+  lastResult?: RouteResult;
+  lastTraceId?: string;
+}
+
+const HELP = `Commands:
+  /chunks               retrieved chunks and scores from the last answer
+  /reasoning            classification intents, confidence, and reasoning
+  /trace                Langfuse trace ID of the last question
+  /department <intent>  send every question to one department; "/department auto" restores classification
+  /reset                start a new session (forgets conversation context)
+  /help                 show this help
+  /exit                 quit
+Anything else is routed as a question within the current session.`;
+
+function newSessionId(): string {
+  return `cli-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Interactive loop over a warm router. Questions share one conversation session, so
+ * follow-ups are rewritten against earlier answers until `/reset`.
+ */
+export async function runRepl(router: MultiAgentRouter, options: ReplOptions): Promise<void> {
+  const state: ReplState = { sessionId: newSessionId() };
+  const rl = createInterface({
+    input: process.stdin,
+    output: options.json ? process.stderr : process.stdout,
+    prompt: "router> "
+  });
+  console.error(`Session ${state.sessionId}. Type /help for commands.`);
+  rl.prompt();
+  for await (const line of rl) {
+    const input = line.trim();
+    if (input === "/exit" || input === "/quit") {
+      break;
+    }
+    try {
+      if (input.startsWith("/")) {
+        handleCommand(input, state, options);
+      } else if (input) {
+        await ask(router, input, state, options);
+      }
+    } catch (error: any) {
+      console.error(error?.message ?? String(error));
+    }
+    rl.prompt();
+  }
+  rl.close();
+}
+
+async function ask(router: MultiAgentRouter, question: string, state: ReplState, options: ReplOptions): Promise<void> {
+  const config: RunnableConfig | undefined = options.langfuseHandler
+    ? {
+        callbacks: [options.langfuseHandler],
+        metadata: { query_type: "cli", session_id: state.sessionId }
+      }
+    : undefined;
+  const result = await router.route(question, config, {
+    sessionId: state.sessionId,
+    caller: options.caller,
+    ...(state.forcedIntent ? { intents: [state.forcedIntent] } : {})
+  });
+  state.lastResult = result;
+  state.lastTraceId = traceIdFromConfig(config);
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(result)}\n`);
+    return;
+  }
+  printRouteResult(result);
+}
+
+function handleCommand(input: string, state: ReplState, options: ReplOptions): void {
+  const [command, ...args] = input.split(/\s+/);
+  const log: OutputLog = options.json ? console.error : console.log;
+  switch (command) {
+    case "/help":
+      log(HELP);
+      return;
+    case "/chunks":
+    case "/reasoning":
+      if (!state.lastResult) {
+        log("Ask a question first.");
+        return;
+      }
+      (command === "/chunks" ? printRetrievedChunks : printClassification)(state.lastResult, log);
+      return;
+    case "/trace":
+      log(
+        state.lastTraceId ??
+          (options.langfuseHandler ? "No trace recorded yet." : "Tracing is disabled (Langfuse keys missing).")
+      );
+      return;
+    case "/reset":
+      state.sessionId = newSessionId();
+      state.lastResult = undefined;
+      state.lastTraceId = undefined;
+      log(`Started session ${state.sessionId}.`);
+      return;
+    case "/department": {
+      const intent = args[0]?.toLowerCase();
+      if (!intent) {
+        log(state.forcedIntent ? `Forcing ${state.forcedIntent}.` : "Routing by classification.");
+        return;
+      }
+      if (intent === "auto") {
+        state.forcedIntent = undefined;
+        log("Routing by classification.");
+        return;
+      }
+      if (!options.departments.includes(intent)) {
+        log(`Unknown department "${intent}". Expected one of: ${options.departments.join(", ")}, auto.`);
+        return;
+      }
+      state.forcedIntent = intent;
+      log(`Sending questions to ${intent} until "/department auto".`);
+      return;
+    }
+    default:
+      log(`Unknown command ${command}. Type /help for commands.`);
+  }
+}
@@ -0,0 +1,99 @@
+import type { RouteResult } from "../multi_agent_system.js";
+import { describeUsage } from "../usage/usage_tracker.js";
+
+/** Writes one line of human-readable output; `--json` runs pass `console.error` to keep stdout clean. */
+export type OutputLog = (...values: unknown[]) => void;
+
+/** Human-readable rendering of a route result, shared by the one-shot CLI and the REPL. */
+export function printRouteResult(result: RouteResult, log: OutputLog = console.log): void {
+  log("Ordered intents:", result.classification.intents.join(" → "));
+  if (result.language) {
+    log(`Language: ${result.language.name} (${result.language.code})`);
+  }
+  if (result.clarification) {
+    log("\n[CLARIFICATION NEEDED]");
+    log(result.clarification.question);
+    log(
+      "Candidates:",
+      result.clarification.candidates.map(({ agent, confidence }) => `${agent} (${confidence.toFixed(2)})`).join(", ")
+    );
+  }
+  if (result.caveat) {
+    log("\nNote:", result.caveat);
+  }
+  for (const turn of result.turns) {
+    log(`\n[${turn.intentTried.toUpperCase()} AGENT]`);
+    log(turn.response.text);
+    log("Sources:", turn.response.sources.join(", "));
+    log("Citation status:", turn.response.citationStatus);
+  }
+  if (result.synthesis) {
+    log("\n[UNIFIED ANSWER]");
+    log(result.synthesis.text);
+  }
+  if (result.unresolvedIntents.length) {
+    log("\nUnresolved intents:", result.unresolvedIntents.join(", "));
+  }
+  if (result.escalation) {
+    log(
+      `\nEscalated to ${result.escalation.suggestedTeam.name} (ticket ${result.escalation.ticketId}). A human will follow up.`
+    );
+  }
+  if (result.pii && Object.keys(result.pii.categories).length) {
+    log(
+      `\nPII ${result.pii.mode === "redact" ? "redacted" : "tokenized"}:`,
+      Object.keys(result.pii.categories).join(", ")
+    );
+  }
+  if (result.usage) {
+    log(`\nUsage: ${describeUsage(result.usage.total)} in ${result.usage.durationMs}ms`);
+    if (result.usage.truncated) {
+      log(
+        `Budget reached (${result.usage.truncated.limit}); skipped: ${result.usage.truncated.skippedIntents.join(", ")}`
+      );
+    }
+  }
+  for (const error of result.errors) {
+    console.warn(
+      `\n[${error.stage.toUpperCase()} FAILED]${error.intent ? ` ${error.intent}` : ""} (${error.kind}): ${error.message}`
+    );
+  }
+}
+
+/** Retrieved context per turn, for inspecting why an agent answered the way it did. */
+export function printRetrievedChunks(result: RouteResult, log: OutputLog = console.log): void {
+  if (!result.turns.length) {
+    log("No agent ran for the last question.");
+    return;
+  }
+  for (const turn of result.turns) {
+    log(`\n[${turn.intentTried.toUpperCase()} AGENT] ${turn.response.retrieved.length} chunk(s)`);
+    for (const chunk of turn.response.retrieved) {
+      const score = chunk.score === undefined ? "n/a" : chunk.score.toFixed(3);
+      log(`- ${chunk.label} (score ${score}${chunk.restricted ? ", restricted" : ""})`);
+      if (chunk.source) {
+        log(`  ${chunk.source}${chunk.section ? ` › ${chunk.section}` : ""}`);
+      }
+      log(`  ${chunk.content.replace(/\s+/g, " ").slice(0, 200)}${chunk.content.length > 200 ? "…" : ""}`);
+    }
+  }
+}
+
+export function printClassification(result: RouteResult, log: OutputLog = console.log): void {
+  const { classification } = result;
+  log("Intents:", classification.intents.join(" → "));
+  log("Confidence:", classification.confidence.toFixed(2));
+  log("Reasoning:", classification.reasoning);
+  if (classification.candidates?.length) {
+    log(
+      "Candidates:",
+      classification.candidates.map(({ intent, confidence }) => `${intent} (${confidence.toFixed(2)})`).join(", ")
+    );
+  }
+  if (result.standaloneQuestion) {
+    log("Standalone question:", result.standaloneQuestion);
+  }
+  if (result.caveat) {
+    log("Caveat:", result.caveat);
+  }
+}
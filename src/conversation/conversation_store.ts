@@ -0,0 +1,181 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { DepartmentIntent } from "../agents/types.js";
+
+export interface ConversationAnswer {
+  intent: DepartmentIntent;
+  agent: string;
+  text: string;
+}
+
+export interface ConversationExchange {
+  question: string;
+  /** The question after follow-up rewriting; equals `question` for the first turn. */
+  standaloneQuestion: string;
+  intents: DepartmentIntent[];
+  answers: ConversationAnswer[];
+  /** Set when the router asked the user to clarify instead of answering. */
+  clarification?: {
+    question: string;
+    candidates: DepartmentIntent[];
+  };
+  timestamp: string;
+}
+
+/**
+ * Sessions belong to the caller that started them (`owner` is their user ID, or
+ * undefined for anonymous callers). Loading or appending as anyone else throws
+ * `SessionOwnershipError`, since the history may hold answers from restricted content.
+ */
+export interface ConversationStore {
+  load(sessionId: string, owner?: string): Promise<ConversationExchange[]>;
+  append(sessionId: string, exchange: ConversationExchange, owner?: string): Promise<void>;
+  clear(sessionId: string): Promise<void>;
+}
+
+/** Raised when a caller uses a session that another caller started. */
+export class SessionOwnershipError extends Error {
+  constructor(readonly sessionId: string) {
+    super(`Session "${sessionId}" belongs to another caller.`);
+    this.name = "SessionOwnershipError";
+  }
+}
+
+interface StoredSession {
+  owner: string | null;
+  exchanges: ConversationExchange[];
+}
+
+function assertOwner(sessionId: string, session: StoredSession | undefined, owner?: string): void {
+  if (session && session.owner !== (owner ?? null)) {
+    throw new SessionOwnershipError(sessionId);
+  }
+}
+
+export type ConversationStoreKind = "memory" | "file";
+
+const DEFAULT_MAX_EXCHANGES = 20;
+
+export class InMemoryConversationStore implements ConversationStore {
+  private readonly sessions = new Map<string, StoredSession>();
+
+  constructor(private readonly maxExchanges = DEFAULT_MAX_EXCHANGES) {}
+
+  async load(sessionId: string, owner?: string): Promise<ConversationExchange[]> {
+    const session = this.sessions.get(sessionId);
+    assertOwner(sessionId, session, owner);
+    return [...(session?.exchanges ?? [])];
+  }
+
+  async append(sessionId: string, exchange: ConversationExchange, owner?: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    assertOwner(sessionId, session, owner);
+    const exchanges = [...(session?.exchanges ?? []), exchange];
+    this.sessions.set(sessionId, { owner: owner ?? null, exchanges: exchanges.slice(-this.maxExchanges) });
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+/**
+ * Persists each session as a JSON file so conversations survive process restarts.
+ * Appends to one session run one at a time so concurrent turns do not drop exchanges.
+ */
+export class FileConversationStore implements ConversationStore {
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxExchanges = DEFAULT_MAX_EXCHANGES
+  ) {}
+
+  async load(sessionId: string, owner?: string): Promise<ConversationExchange[]> {
+    const session = await this.read(sessionId);
+    assertOwner(sessionId, session, owner);
+    return session?.exchanges ?? [];
+  }
+
+  append(sessionId: string, exchange: ConversationExchange, owner?: string): Promise<void> {
+    const filePath = this.filePath(sessionId);
+    const write = (this.writes.get(filePath) ?? Promise.resolve()).then(async () => {
+      const session = await this.read(sessionId);
+      assertOwner(sessionId, session, owner);
+      const exchanges = [...(session?.exchanges ?? []), exchange].slice(-this.maxExchanges);
+      await mkdir(this.directory, { recursive: true });
+      const stored: StoredSession = { owner: owner ?? null, exchanges };
+      await writeFile(filePath, JSON.stringify(stored, null, 2), "utf8");
+    });
+    const queued = write.catch(() => undefined);
+    this.writes.set(filePath, queued);
+    queued.then(() => {
+      if (this.writes.get(filePath) === queued) {
+        this.writes.delete(filePath);
+      }
+    });
+    return write;
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await rm(this.filePath(sessionId), { force: true });
+  }
+
+  private async read(sessionId: string): Promise<StoredSession | undefined> {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(this.filePath(sessionId), "utf8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    // Sessions written before ownership was tracked are plain arrays; treat them as anonymous.
+    return Array.isArray(raw) ? { owner: null, exchanges: raw as ConversationExchange[] } : (raw as StoredSession);
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${sanitizeSessionId(sessionId)}.json`);
+  }
+}
+
+export function sanitizeSessionId(sessionId: string): string {
+  const sanitized = sessionId.trim().replace(/[^a-zA-Z0-9_.-]/g, "_");
+  if (!sanitized || /^\.+$/.test(sanitized)) {
+    throw new Error(`Invalid session ID "${sessionId}".`);
+  }
+  return sanitized.slice(0, 128);
+}
+
+/**
+ * Compacts prior exchanges into a short transcript for prompts: only the most recent
+ * exchanges are kept and long answers are truncated so follow-ups stay cheap.
+ */
+export function summarizeConversation(
+  exchanges: ConversationExchange[],
+  { maxExchanges = 4, maxAnswerChars = 400 }: { maxExchanges?: number; maxAnswerChars?: number } = {}
+): string {
+  if (!exchanges.length) {
+    return "No prior conversation.";
+  }
+  const recent = exchanges.slice(-maxExchanges);
+  const omitted = exchanges.length - recent.length;
+  const lines = recent.map((exchange) => {
+    const answers = exchange.clarification
+      ? `Router asked: ${exchange.clarification.question}`
+      : exchange.answers.length
+        ? exchange.answers
+            .map((answer) => `${answer.agent}: ${truncate(answer.text, maxAnswerChars)}`)
+            .join("\n")
+        : "No department answered.";
+    return `User: ${exchange.standaloneQuestion}\n${answers}`;
+  });
+  return [omitted > 0 ? `(${omitted} earlier exchanges omitted)` : "", ...lines]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function truncate(value: string, maxChars: number): string {
+  return value.length > maxChars ? `${value.slice(0, maxChars).trimEnd()}…` : value;
+}
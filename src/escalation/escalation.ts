@@ -0,0 +1,204 @@
+import { randomUUID } from "crypto";
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import { UNKNOWN_INTENT } from "../agents/types.js";
+import type { DepartmentIntent } from "../agents/types.js";
+import type { DepartmentRegistry } from "../agents/department_registry.js";
+import type { DomainAgentResult } from "../agents/domain_agent.js";
+
+/** Phrases agents use when the retrieved policy does not answer the question. */
+const DONT_KNOW_PATTERN =
+  /\b(?:i (?:do not|don't) know|i'm not sure|could not find (?:any )?(?:policy|documentation|information)|no (?:relevant )?(?:policy|documentation) (?:covers|addresses))\b/i;
+
+/** The same admissions in the other languages agents answer in. */
+const LOCALIZED_DONT_KNOW_PATTERN =
+  /(?:^|[^\p{L}])(?:no (?:lo )?sé|no encontr[éeó] (?:ninguna )?(?:política|documentación|información)|ich weiß (?:es )?nicht|keine (?:passende )?(?:richtlinie|dokumentation|information) gefunden|não sei|não encontrei (?:nenhuma )?(?:política|documentação|informação))(?!\p{L})/iu;
+
+export type EscalationReason = "unknown_classification" | "unresolved_intents" | "agent_unknown";
+
+export interface EscalationTurn {
+  intent: DepartmentIntent;
+  outcome: "answered" | "not_covered" | "unknown" | "failed";
+  answer: string;
+  sources: string[];
+}
+
+export interface SuggestedTeam {
+  /** Department intent, or `unknown` when no department could be inferred. */
+  intent: DepartmentIntent;
+  name: string;
+  /** The department's escalation instructions from the registry, when configured. */
+  contact?: string;
+}
+
+export interface EscalationTicket {
+  id: string;
+  createdAt: string;
+  reasons: EscalationReason[];
+  /** Question as the router saw it, after PII sanitization and follow-up rewriting. */
+  question: string;
+  userId?: string;
+  sessionId?: string;
+  classification: {
+    intents: DepartmentIntent[];
+    confidence: number;
+    reasoning: string;
+  };
+  turns: EscalationTurn[];
+  unresolvedIntents: DepartmentIntent[];
+  suggestedTeam: SuggestedTeam;
+}
+
+/** Delivers tickets to a tracking system and returns the ID users should quote. */
+export interface TicketAdapter {
+  submit(ticket: EscalationTicket): Promise<string>;
+}
+
+export interface EscalationInput {
+  question: string;
+  userId?: string;
+  sessionId?: string;
+  classification: EscalationTicket["classification"];
+  turns: { intentTried: DepartmentIntent; response: DomainAgentResult; error?: unknown }[];
+  unresolvedIntents: DepartmentIntent[];
+}
+
+export interface EscalationOutcome {
+  ticketId: string;
+  reasons: EscalationReason[];
+  suggestedTeam: SuggestedTeam;
+}
+
+/**
+ * Turns dead-end routing results (no department, unreachable departments, or agents
+ * that could not answer) into tickets for a human to follow up on.
+ */
+export class EscalationService {
+  constructor(
+    private readonly adapter: TicketAdapter,
+    private readonly registry: DepartmentRegistry,
+    private readonly defaultTeam = "Employee Help Desk"
+  ) {}
+
+  /** Returns undefined when the request was fully handled and needs no ticket. */
+  async escalate(input: EscalationInput): Promise<EscalationOutcome | undefined> {
+    const turns = input.turns.map(describeTurn);
+    const reasons: EscalationReason[] = [];
+    if (input.classification.intents.every((intent) => intent === UNKNOWN_INTENT) && !turns.length) {
+      reasons.push("unknown_classification");
+    }
+    if (input.unresolvedIntents.length) {
+      reasons.push("unresolved_intents");
+    }
+    if (turns.some((turn) => turn.outcome === "not_covered" || turn.outcome === "unknown")) {
+      reasons.push("agent_unknown");
+    }
+    if (!reasons.length) {
+      return undefined;
+    }
+    const ticket: EscalationTicket = {
+      id: `ESC-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${randomUUID().slice(0, 8)}`,
+      createdAt: new Date().toISOString(),
+      reasons,
+      question: input.question,
+      ...(input.userId ? { userId: input.userId } : {}),
+      ...(input.sessionId ? { sessionId: input.sessionId } : {}),
+      classification: input.classification,
+      turns,
+      unresolvedIntents: input.unresolvedIntents,
+      suggestedTeam: this.suggestTeam(input.unresolvedIntents, turns)
+    };
+    const ticketId = await this.adapter.submit(ticket);
+    return { ticketId, reasons, suggestedTeam: ticket.suggestedTeam };
+  }
+
+  /**
+   * Unreachable departments own the ticket first, then departments whose agent could
+   * not answer; otherwise it goes to the default help desk.
+   */
+  private suggestTeam(unresolvedIntents: DepartmentIntent[], turns: EscalationTurn[]): SuggestedTeam {
+    const intent =
+      unresolvedIntents.find((candidate) => this.registry.has(candidate)) ??
+      turns.find((turn) => turn.outcome === "not_covered" || turn.outcome === "unknown")?.intent;
+    const department = intent ? this.registry.get(intent) : undefined;
+    if (!department) {
+      return { intent: UNKNOWN_INTENT, name: this.defaultTeam };
+    }
+    return {
+      intent: department.intent,
+      name: department.displayName,
+      ...(department.escalation ? { contact: department.escalation } : {})
+    };
+  }
+}
+
+function describeTurn({ intentTried, response, error }: EscalationInput["turns"][number]): EscalationTurn {
+  const outcome: EscalationTurn["outcome"] = error
+    ? "failed"
+    : response.notCovered
+      ? "not_covered"
+      : DONT_KNOW_PATTERN.test(response.text) || LOCALIZED_DONT_KNOW_PATTERN.test(response.text)
+        ? "unknown"
+        : "answered";
+  return { intent: intentTried, outcome, answer: response.text, sources: response.sources };
+}
+
+/** Keeps tickets in memory, e.g. for replays and tests that must not file real tickets. */
+export class InMemoryTicketAdapter implements TicketAdapter {
+  readonly tickets: EscalationTicket[] = [];
+
+  async submit(ticket: EscalationTicket): Promise<string> {
+    this.tickets.push(ticket);
+    return ticket.id;
+  }
+}
+
+/** Appends tickets to a JSONL file, e.g. for a help desk importer to pick up. */
+export class JsonlTicketAdapter implements TicketAdapter {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async submit(ticket: EscalationTicket): Promise<string> {
+    const write = this.writes.then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(ticket)}\n`, "utf8");
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+    return ticket.id;
+  }
+}
+
+export interface WebhookTicketAdapterOptions {
+  url: string;
+  /** Sent as a bearer token when set. */
+  token?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * POSTs the ticket as JSON. When the receiver responds with an `id` (or `ticketId`)
+ * that ID is returned, so users can quote the tracking system's reference.
+ */
+export class WebhookTicketAdapter implements TicketAdapter {
+  constructor(private readonly options: WebhookTicketAdapterOptions) {}
+
+  async submit(ticket: EscalationTicket): Promise<string> {
+    const response = await fetch(this.options.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(this.options.token ? { authorization: `Bearer ${this.options.token}` } : {})
+      },
+      body: JSON.stringify(ticket),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Escalation webhook responded with ${response.status} ${response.statusText}`);
+    }
+    const body = await response.json().catch(() => undefined);
+    const externalId = body?.id ?? body?.ticketId;
+    return typeof externalId === "string" || typeof externalId === "number" ? String(externalId) : ticket.id;
+  }
+}
@@ -0,0 +1,139 @@
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
+import type { Langfuse } from "langfuse";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import type { RetrievedChunk } from "../agents/domain_agent.js";
+
+export const RUBRIC_DIMENSIONS = ["faithfulness", "citation_correctness", "completeness", "policy_tone"] as const;
+
+export type RubricDimension = (typeof RUBRIC_DIMENSIONS)[number];
+
+export interface DimensionScore {
+  /** 1-10, higher is better. */
+  score: number;
+  reasoning: string;
+}
+
+export interface RubricEvaluation {
+  dimensions: Record<RubricDimension, DimensionScore>;
+  /** Mean of the dimension scores. */
+  overall: number;
+}
+
+export interface RubricEvaluationInput {
+  question: string;
+  answer: string;
+  citations: string[];
+  context: RetrievedChunk[];
+  /** Known-good answer from an evaluation dataset; informs completeness when present. */
+  referenceAnswer?: string;
+}
+
+export interface RubricEvaluationOptions {
+  config?: RunnableConfig;
+  /** Langfuse trace the scores attach to; scores are only pushed when one is known. */
+  traceId?: string;
+}
+
+function createRubricParser() {
+  const dimension = z.object({
+    score: z.number().min(1).max(10),
+    reasoning: z.string().min(5)
+  });
+  return StructuredOutputParser.fromZodSchema(
+    z.object({
+      faithfulness: dimension,
+      citation_correctness: dimension,
+      completeness: dimension,
+      policy_tone: dimension
+    })
+  );
+}
+
+/**
+ * Grades an agent answer against the chunks it was given, one score per rubric
+ * dimension. Each dimension is pushed to Langfuse as its own `rubric_<dimension>` score.
+ */
+export class RubricEvaluator {
+  private readonly parser: OutputParserLike<RubricEvaluation["dimensions"]>;
+  private readonly prompt: ChatPromptTemplate;
+
+  constructor(
+    private readonly llm: ChatModelLike,
+    private readonly langfuse?: Langfuse
+  ) {
+    this.parser = createRubricParser();
+    this.prompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        "You are the helpdesk QA evaluator. Grade the answer on a 1-10 scale for each dimension:\n" +
+          "- faithfulness: every claim is supported by the retrieved context; penalize anything invented.\n" +
+          "- citation_correctness: the cited KB IDs exist in the context and support the statements they are attached to.\n" +
+          "- completeness: the answer covers every part of the question that the context can answer, and the key points of the reference answer when one is provided.\n" +
+          "- policy_tone: professional, clear, follows policy wording, and points to the right next step or escalation."
+      ],
+      [
+        "human",
+        "Question: {question}\n\nAnswer:\n{answer}\n\nCitations: {citations}\n\nReference answer:\n{reference}\n\nRetrieved context:\n{context}\n\nReturn JSON that follows: {format_instructions}"
+      ]
+    ]);
+  }
+
+  async evaluate(input: RubricEvaluationInput, options: RubricEvaluationOptions = {}): Promise<RubricEvaluation> {
+    const context = input.context.length
+      ? input.context.map((chunk) => `Source: ${chunk.label}\n${chunk.content}`).join("\n\n---\n\n")
+      : "No documents were retrieved.";
+    const messages = await this.prompt.formatMessages({
+      question: input.question,
+      answer: input.answer,
+      citations: input.citations.join(", ") || "none",
+      reference: input.referenceAnswer ?? "None provided.",
+      context,
+      format_instructions: this.parser.getFormatInstructions()
+    });
+    const dimensions = await invokeStructured(this.llm, messages, this.parser, options.config);
+    const overall =
+      RUBRIC_DIMENSIONS.reduce((sum, dimension) => sum + dimensions[dimension].score, 0) / RUBRIC_DIMENSIONS.length;
+
+    if (this.langfuse && options.traceId) {
+      for (const dimension of RUBRIC_DIMENSIONS) {
+        this.langfuse.score({
+          traceId: options.traceId,
+          name: `rubric_${dimension}`,
+          value: dimensions[dimension].score,
+          comment: dimensions[dimension].reasoning
+        });
+      }
+      await this.langfuse.flushAsync();
+    }
+    return { dimensions, overall };
+  }
+}
+
+/** Summarizes the weakest dimensions as reviewer feedback for a stricter retry. */
+export function describeShortfalls(evaluation: RubricEvaluation, minScore: number): string {
+  const weak = RUBRIC_DIMENSIONS.filter((dimension) => evaluation.dimensions[dimension].score < minScore);
+  const focus = weak.length ? weak : RUBRIC_DIMENSIONS;
+  return focus
+    .map((dimension) => `${dimension} (${evaluation.dimensions[dimension].score}/10): ${evaluation.dimensions[dimension].reasoning}`)
+    .join("\n");
+}
+
+/**
+ * Finds the Langfuse trace of the current run from the callbacks in `config`. The
+ * handler only exposes the most recent trace, so concurrent requests must each use
+ * their own handler or pass an explicit trace ID.
+ */
+export function traceIdFromConfig(config?: RunnableConfig): string | undefined {
+  const callbacks = Array.isArray(config?.callbacks) ? config.callbacks : [];
+  for (const callback of callbacks) {
+    const traceId = (callback as { last_trace_id?: unknown }).last_trace_id;
+    if (typeof traceId === "string" && traceId) {
+      return traceId;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,242 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+
+export type PiiMode = "redact" | "tokenize";
+
+export interface PiiMatch {
+  category: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiDetector {
+  category: string;
+  detect(text: string): PiiMatch[];
+}
+
+/**
+ * Regex detector. When the pattern has a capture group only the first group is
+ * treated as PII, so context words such as "salary" or "account number" stay visible.
+ */
+export class RegexPiiDetector implements PiiDetector {
+  private readonly pattern: RegExp;
+
+  constructor(
+    readonly category: string,
+    pattern: RegExp,
+    private readonly validate?: (value: string) => boolean
+  ) {
+    this.pattern = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+  }
+
+  detect(text: string): PiiMatch[] {
+    const matches: PiiMatch[] = [];
+    for (const match of text.matchAll(this.pattern)) {
+      const value = match[1] ?? match[0];
+      if (!value || (this.validate && !this.validate(value))) {
+        continue;
+      }
+      const start = match.index! + (match[1] !== undefined ? match[0].indexOf(match[1]) : 0);
+      matches.push({ category: this.category, start, end: start + value.length, value });
+    }
+    return matches;
+  }
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let idx = 0; idx < digits.length; idx += 1) {
+    let digit = Number(digits[digits.length - 1 - idx]);
+    if (idx % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const MEDICAL_TERMS =
+  "cancer|chemotherapy|diabetes|pregnan(?:t|cy)|miscarriage|depression|bipolar|anxiety disorder|ptsd|adhd|hiv|aids|epilepsy|dementia|multiple sclerosis|long covid";
+
+/** Every built-in detector; `PII_CONFIG` can select any of them by category. */
+export const BUILT_IN_PII_DETECTORS: PiiDetector[] = [
+  new RegexPiiDetector("ssn", /\b(?!000|666|9\d\d)\d{3}[- ](?!00)\d{2}[- ](?!0000)\d{4}\b/),
+  new RegexPiiDetector("credit_card", /\b\d(?:[ -]?\d){12,18}\b/, passesLuhn),
+  new RegexPiiDetector("iban", /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/),
+  new RegexPiiDetector(
+    "bank_account",
+    /\b(?:account|acct|routing|aba)(?:\s+(?:number|no\.?|num|#))?\s*(?:is|:|#)?\s*(\d{6,17})\b/i
+  ),
+  new RegexPiiDetector("email", /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/),
+  new RegexPiiDetector("phone", /(?:\+?1[-. ]?)?\(?\b\d{3}\)?[-. ]\d{3}[-. ]\d{4}\b/),
+  new RegexPiiDetector(
+    "date_of_birth",
+    /\b(?:dob|date of birth|born on)\s*(?:is|:)?\s*(\d{1,2}[/-]\d{1,2}[/-]\d{2,4})\b/i
+  ),
+  // Only compensation wording counts, so expense and invoice amounts stay visible to agents and tools.
+  new RegexPiiDetector(
+    "salary",
+    /\b(?:salary|base pay|compensation|wages?)\b[^.\n$]{0,40}?(\$\s?\d(?:[\d,]*\d)?(?:\.\d+)?(?:\s?[kK]\b)?)/i
+  ),
+  new RegexPiiDetector("medical", new RegExp(`\\b(?:${MEDICAL_TERMS})\\b`, "i"))
+];
+
+/** Categories only enabled when `PII_CONFIG` lists them; leave questions routinely mention these terms. */
+const OPT_IN_CATEGORIES = ["medical"];
+
+export const DEFAULT_PII_DETECTORS: PiiDetector[] = BUILT_IN_PII_DETECTORS.filter(
+  (detector) => !OPT_IN_CATEGORIES.includes(detector.category)
+);
+
+/** Categories whose values are never echoed back, even to the employee who sent them. */
+const DEFAULT_NON_RESTORABLE = ["ssn", "credit_card", "iban", "bank_account"];
+
+export interface PiiGuardOptions {
+  mode: PiiMode;
+  detectors?: PiiDetector[];
+  /** Categories restored in the final answer when tokenizing; defaults to all but financial identifiers and SSNs. */
+  restoreCategories?: string[];
+}
+
+/** Token → original value map for one request. Never persisted or traced. */
+export type PiiVault = Map<string, { category: string; value: string }>;
+
+export interface SanitizedText {
+  text: string;
+  vault: PiiVault;
+  /** Detected PII counts per category; values are never recorded. */
+  categories: Record<string, number>;
+}
+
+/**
+ * Replaces detected PII before text reaches prompts, traces, caches, or session
+ * stores. `tokenize` uses numbered placeholders that can be restored in the answer;
+ * `redact` uses category markers that cannot.
+ */
+export class PiiGuard {
+  readonly mode: PiiMode;
+  private readonly detectors: PiiDetector[];
+  private readonly restoreCategories: Set<string>;
+
+  constructor(options: PiiGuardOptions) {
+    this.mode = options.mode;
+    this.detectors = options.detectors ?? DEFAULT_PII_DETECTORS;
+    this.restoreCategories = new Set(
+      options.restoreCategories ??
+        this.detectors.map((detector) => detector.category).filter((category) => !DEFAULT_NON_RESTORABLE.includes(category))
+    );
+  }
+
+  sanitize(text: string): SanitizedText {
+    const matches = this.detectors
+      .flatMap((detector) => detector.detect(text))
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+    const vault: PiiVault = new Map();
+    const tokensByValue = new Map<string, string>();
+    const counters = new Map<string, number>();
+    const categories: Record<string, number> = {};
+    let cursor = 0;
+    let output = "";
+    for (const match of matches) {
+      if (match.start < cursor) {
+        continue;
+      }
+      categories[match.category] = (categories[match.category] ?? 0) + 1;
+      const key = `${match.category}\u0000${match.value}`;
+      let token = tokensByValue.get(key);
+      if (!token) {
+        const label = match.category.toUpperCase();
+        if (this.mode === "redact") {
+          token = `[REDACTED_${label}]`;
+        } else {
+          const next = (counters.get(match.category) ?? 0) + 1;
+          counters.set(match.category, next);
+          token = `[${label}_${next}]`;
+          vault.set(token, { category: match.category, value: match.value });
+        }
+        tokensByValue.set(key, token);
+      }
+      output += text.slice(cursor, match.start) + token;
+      cursor = match.end;
+    }
+    return { text: output + text.slice(cursor), vault, categories };
+  }
+
+  /** Puts restorable values back in place of their tokens. */
+  restore(text: string, vault: PiiVault): string {
+    let restored = text;
+    for (const [token, { category, value }] of vault) {
+      if (this.restoreCategories.has(category)) {
+        restored = restored.split(token).join(value);
+      }
+    }
+    return restored;
+  }
+}
+
+const piiConfigSchema = z.object({
+  /** Built-in detectors to enable; all but the opt-in ones are enabled when omitted. */
+  categories: z.array(z.string().min(1)).optional(),
+  patterns: z
+    .array(
+      z.object({
+        category: z.string().regex(/^[a-z][a-z0-9_]*$/, "must be lowercase letters, digits, or underscores"),
+        pattern: z.string().min(1),
+        flags: z.string().regex(/^[imsu]*$/, "may only contain i, m, s, or u").optional()
+      })
+    )
+    .default([]),
+  restore: z.array(z.string().min(1)).optional()
+});
+
+export interface PiiConfig {
+  detectors: PiiDetector[];
+  restoreCategories?: string[];
+}
+
+/**
+ * Reads an optional JSON config that selects built-in detectors, adds custom regex
+ * patterns, and lists the categories restored in answers.
+ */
+export async function loadPiiConfig(configPath?: string): Promise<PiiConfig> {
+  if (!configPath) {
+    return { detectors: DEFAULT_PII_DETECTORS };
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(configPath, "utf8"));
+  } catch (error: any) {
+    const reason = error?.code === "ENOENT" ? "file not found" : error?.message ?? String(error);
+    throw new Error(`Unable to read PII config ${configPath}: ${reason}`);
+  }
+  const parsed = piiConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid PII config ${configPath}:\n${issues.join("\n")}`);
+  }
+  const { categories, patterns, restore } = parsed.data;
+  const known = new Set(BUILT_IN_PII_DETECTORS.map((detector) => detector.category));
+  const unknown = (categories ?? []).filter((category) => !known.has(category));
+  if (unknown.length) {
+    throw new Error(`Invalid PII config ${configPath}: unknown built-in categories ${unknown.join(", ")}`);
+  }
+  const builtIn = categories
+    ? BUILT_IN_PII_DETECTORS.filter((detector) => categories.includes(detector.category))
+    : DEFAULT_PII_DETECTORS;
+  const custom = patterns.map(({ category, pattern, flags }) => {
+    try {
+      return new RegexPiiDetector(category, new RegExp(pattern, flags));
+    } catch (error: any) {
+      throw new Error(`Invalid PII config ${configPath}: pattern for ${category}: ${error?.message ?? error}`);
+    }
+  });
+  return { detectors: [...builtIn, ...custom], ...(restore ? { restoreCategories: restore } : {}) };
+}
@@ -0,0 +1,285 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { Document } from "@langchain/core/documents";
+import type { DocumentInterface } from "@langchain/core/documents";
+import { TextLoader } from "langchain/document_loaders/fs/text";
+import type { BaseDocumentLoader } from "langchain/document_loaders/base";
+import { CSVLoader } from "@langchain/community/document_loaders/fs/csv";
+import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
+import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
+import { z } from "zod";
+import { aclMetadata, parseFrontMatter } from "../access/access_control.js";
+
+/** `leave_policy.pdf.meta.json` describes `leave_policy.pdf`. */
+export const SIDECAR_SUFFIX = ".meta.json";
+
+/** Set on documents whose text was converted to Markdown headings, so they split by section. */
+export const CONTENT_FORMAT_KEY = "content_format";
+
+/** Descriptive front-matter or sidecar keys copied onto every chunk of a document. */
+export const DOCUMENT_METADATA_KEYS = ["title", "owner", "effective_date", "audience"] as const;
+
+type DocumentAttributes = Record<string, string | string[]>;
+
+/**
+ * Loaders by file extension. PDF and DOCX parsing use the `pdf-parse` and `mammoth`
+ * packages, which the LangChain loaders import on first use.
+ */
+export const DOCUMENT_LOADERS: Record<string, (filePath: string) => BaseDocumentLoader> = {
+  ".md": (filePath) => new TextLoader(filePath),
+  ".markdown": (filePath) => new TextLoader(filePath),
+  ".txt": (filePath) => new TextLoader(filePath),
+  ".csv": (filePath) => new CSVLoader(filePath),
+  ".pdf": (filePath) => new PDFLoader(filePath, { splitPages: false }),
+  ".docx": (filePath) => new DocxLoader(filePath, { type: "docx" }),
+  ".html": (filePath) => new HtmlLoader(filePath),
+  ".htm": (filePath) => new HtmlLoader(filePath),
+  ".json": (filePath) => new JsonDocumentLoader(filePath)
+};
+
+export function isSidecarFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith(SIDECAR_SUFFIX);
+}
+
+export function isSupportedDocument(filePath: string): boolean {
+  return !isSidecarFile(filePath) && path.extname(filePath).toLowerCase() in DOCUMENT_LOADERS;
+}
+
+/**
+ * Loads every supported file below `folder`, in a stable order so chunk IDs do not
+ * depend on directory listing order. Unsupported files and files that fail to load
+ * (e.g. a corrupt PDF) are skipped with a warning.
+ */
+export async function loadDocumentDirectory(folder: string, dataRoot = folder): Promise<DocumentInterface[]> {
+  const entries = await readdir(folder, { recursive: true, withFileTypes: true });
+  const files = entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.join(entry.parentPath ?? entry.path, entry.name))
+    .sort();
+  const docs: DocumentInterface[] = [];
+  for (const filePath of files) {
+    if (isSidecarFile(filePath)) {
+      continue;
+    }
+    if (!isSupportedDocument(filePath)) {
+      console.warn(`Skipping unsupported document ${path.relative(dataRoot, filePath)}.`);
+      continue;
+    }
+    try {
+      docs.push(...(await loadDocumentFile(filePath, dataRoot)));
+    } catch (error: any) {
+      console.warn(`Skipping ${path.relative(dataRoot, filePath)}: ${error?.message ?? String(error)}`);
+    }
+  }
+  return docs;
+}
+
+/**
+ * Loads one file and stamps it with its descriptive metadata and ACL. Front-matter
+ * is stripped from the text; its keys win over the sidecar file's.
+ */
+export async function loadDocumentFile(filePath: string, dataRoot: string): Promise<DocumentInterface[]> {
+  const createLoader = DOCUMENT_LOADERS[path.extname(filePath).toLowerCase()];
+  if (!createLoader) {
+    throw new Error(`Unsupported document type ${filePath}. Supported: ${Object.keys(DOCUMENT_LOADERS).join(", ")}.`);
+  }
+  let loaded: DocumentInterface[];
+  try {
+    loaded = await createLoader(filePath).load();
+  } catch (error: any) {
+    throw new Error(`Failed to load ${filePath}: ${error?.message ?? String(error)}`);
+  }
+  const sidecar = await readSidecar(filePath);
+  const relativePath = path.relative(dataRoot, filePath);
+  return loaded.map((doc) => {
+    const { attributes, body } = parseFrontMatter(doc.pageContent);
+    const merged = { ...embeddedAttributes(doc.metadata), ...sidecar, ...normalizeKeys(attributes) };
+    return new Document({
+      pageContent: body,
+      metadata: {
+        ...scalarMetadata(doc.metadata),
+        ...describeDocument(merged),
+        ...aclMetadata(merged, relativePath)
+      }
+    });
+  });
+}
+
+const sidecarSchema = z.record(z.union([z.string(), z.number(), z.array(z.string())]));
+
+async function readSidecar(filePath: string): Promise<DocumentAttributes> {
+  const sidecarPath = `${filePath}${SIDECAR_SUFFIX}`;
+  let raw: string;
+  try {
+    raw = await readFile(sidecarPath, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return {};
+    }
+    throw new Error(`Unable to read ${sidecarPath}: ${error?.message ?? String(error)}`);
+  }
+  let parsed: z.SafeParseReturnType<unknown, z.infer<typeof sidecarSchema>>;
+  try {
+    parsed = sidecarSchema.safeParse(JSON.parse(raw));
+  } catch (error: any) {
+    throw new Error(`Invalid sidecar metadata ${sidecarPath}: ${error?.message ?? String(error)}`);
+  }
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid sidecar metadata ${sidecarPath}:\n${issues.join("\n")}`);
+  }
+  return normalizeKeys(
+    Object.fromEntries(
+      Object.entries(parsed.data).map(([key, value]) => [key, typeof value === "number" ? String(value) : value])
+    )
+  );
+}
+
+/** Accepts `effective-date` and `effectiveDate` as well as `effective_date`. */
+function normalizeKeys(attributes: DocumentAttributes): DocumentAttributes {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([key, value]) => [
+      key
+        .replace(/([a-z])([A-Z])/g, "$1_$2")
+        .replace(/-/g, "_")
+        .toLowerCase(),
+      value
+    ])
+  );
+}
+
+function describeDocument(attributes: DocumentAttributes): Record<string, string | string[]> {
+  const described: Record<string, string | string[]> = {};
+  for (const key of DOCUMENT_METADATA_KEYS) {
+    const value = attributes[key];
+    if (value === undefined || !value.length) {
+      continue;
+    }
+    described[key] =
+      key === "audience"
+        ? (Array.isArray(value) ? value : value.split(",")).map((entry) => entry.trim()).filter(Boolean)
+        : Array.isArray(value)
+          ? value.join(", ")
+          : value;
+  }
+  return described;
+}
+
+/** Titles the file format itself carries: the PDF info dictionary or the HTML `<title>`. */
+function embeddedAttributes(metadata: Record<string, any>): DocumentAttributes {
+  const title = metadata?.pdf?.info?.Title ?? metadata?.html_title;
+  return typeof title === "string" && title.trim() ? { title: title.trim() } : {};
+}
+
+/**
+ * Vector stores such as Pinecone only accept flat metadata, so nested loader details
+ * (PDF info, line locations) are dropped.
+ */
+function scalarMetadata(metadata: Record<string, any>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(metadata ?? {}).filter(
+      ([key, value]) =>
+        key !== "html_title" &&
+        (["string", "number", "boolean"].includes(typeof value) ||
+          (Array.isArray(value) && value.every((entry) => typeof entry === "string")))
+    )
+  );
+}
+
+/**
+ * Converts exported HTML pages (e.g. Confluence) to Markdown-like text: headings
+ * become `#` lines so the section splitter can use them, scripts and styles are
+ * dropped, and list items and table cells keep a readable layout.
+ */
+export class HtmlLoader extends TextLoader {
+  private title?: string;
+
+  protected async parse(raw: string): Promise<string[]> {
+    this.title = decodeEntities(raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? "").trim() || undefined;
+    return [htmlToText(raw)];
+  }
+
+  async load(): Promise<DocumentInterface[]> {
+    const docs = await super.load();
+    return docs.map(
+      (doc) =>
+        new Document({
+          pageContent: doc.pageContent,
+          metadata: {
+            ...doc.metadata,
+            [CONTENT_FORMAT_KEY]: "markdown",
+            ...(this.title ? { html_title: this.title } : {})
+          }
+        })
+    );
+  }
+}
+
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, heading: string) => {
+      const title = heading.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+      return `\n\n${"#".repeat(Number(level))} ${title}\n\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(td|th)>/gi, " | ")
+    .replace(/<br\s*\/?>|<\/(p|div|tr|table|ul|ol|section|article|blockquote|pre)>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“"
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Renders a JSON document as one `path: value` line per leaf, e.g.
+ * `approvals.travel.limit: 5000`, so keys stay searchable next to their values.
+ */
+export class JsonDocumentLoader extends TextLoader {
+  protected async parse(raw: string): Promise<string[]> {
+    return [renderJson(JSON.parse(raw)).join("\n")];
+  }
+}
+
+function renderJson(value: unknown, keyPath = ""): string[] {
+  if (Array.isArray(value)) {
+    if (value.every((entry) => entry === null || typeof entry !== "object")) {
+      return [`${keyPath ? `${keyPath}: ` : ""}${value.join(", ")}`];
+    }
+    return value.flatMap((entry, index) => renderJson(entry, `${keyPath}[${index}]`));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, entry]) => renderJson(entry, keyPath ? `${keyPath}.${key}` : key));
+  }
+  return [`${keyPath ? `${keyPath}: ` : ""}${String(value)}`];
+}
@@ -0,0 +1,65 @@
+import { watch } from "fs";
+import type { FSWatcher } from "fs";
+import { stat } from "fs/promises";
+import path from "path";
+
+export type DocumentChange = "changed" | "removed";
+
+export interface DocumentWatcherOptions {
+  /** Quiet period after the last event for a file before it is reported. */
+  debounceMs?: number;
+  /** Stops watching when aborted. */
+  signal?: AbortSignal;
+  onError?(error: unknown, filePath: string): void;
+}
+
+/**
+ * Watches a directory tree and reports settled file changes. Editors and sync tools
+ * fire several events per save, so each path is debounced, and handlers run one at a
+ * time so re-indexing never races itself.
+ */
+export function watchDocuments(
+  root: string,
+  onChange: (filePath: string, change: DocumentChange) => Promise<void>,
+  options: DocumentWatcherOptions = {}
+): FSWatcher {
+  const debounceMs = options.debounceMs ?? 300;
+  const timers = new Map<string, NodeJS.Timeout>();
+  let queue: Promise<void> = Promise.resolve();
+
+  const report = async (filePath: string) => {
+    const info = await stat(filePath).catch(() => undefined);
+    if (info?.isDirectory()) {
+      return;
+    }
+    await onChange(filePath, info ? "changed" : "removed");
+  };
+
+  const watcher = watch(root, { recursive: true, signal: options.signal }, (_event, filename) => {
+    if (!filename) {
+      return;
+    }
+    const filePath = path.join(root, filename.toString());
+    clearTimeout(timers.get(filePath));
+    timers.set(
+      filePath,
+      setTimeout(() => {
+        timers.delete(filePath);
+        queue = queue
+          .then(() => report(filePath))
+          .catch((error) => (options.onError ?? defaultOnError)(error, filePath));
+      }, debounceMs)
+    );
+  });
+  watcher.on("close", () => {
+    for (const timer of timers.values()) {
+      clearTimeout(timer);
+    }
+    timers.clear();
+  });
+  return watcher;
+}
+
+function defaultOnError(error: unknown, filePath: string): void {
+  console.error(`Failed to re-index ${filePath}:`, error);
+}
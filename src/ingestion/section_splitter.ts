@@ -0,0 +1,120 @@
+import path from "path";
+import { Document } from "@langchain/core/documents";
+import type { DocumentInterface } from "@langchain/core/documents";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { CONTENT_FORMAT_KEY } from "./document_loaders.js";
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*$/;
+const SECTION_LABEL_PATTERN = /^(Section\s+\d+)\s*:?\s*(.*)$/i;
+export const KB_ID_PATTERN = /\bKB-[A-Z]+\d+\b/;
+
+export interface SectionSplitterOptions {
+  department: string;
+  /** Directory `source` paths are made relative to, so labels stay portable. */
+  sourceRoot?: string;
+  /** Sections longer than this are sub-split; shorter sections stay whole. */
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+interface MarkdownSection {
+  heading?: string;
+  body: string;
+}
+
+/**
+ * Splits playbooks along their `### Section NN:` headings so every chunk belongs to
+ * exactly one section, and tags each chunk with `section`, `kb_id`, `department`, and
+ * `source`. HTML converted to Markdown headings splits the same way; other files
+ * fall back to recursive character splitting.
+ */
+export class SectionAwareSplitter {
+  private readonly fallback: RecursiveCharacterTextSplitter;
+
+  constructor(private readonly options: SectionSplitterOptions) {
+    this.fallback = new RecursiveCharacterTextSplitter({
+      chunkSize: options.chunkSize ?? 1000,
+      chunkOverlap: options.chunkOverlap ?? 80
+    });
+  }
+
+  async splitDocuments(docs: DocumentInterface[]): Promise<DocumentInterface[]> {
+    const chunks: DocumentInterface[] = [];
+    for (const doc of docs) {
+      chunks.push(...(await this.splitDocument(doc)));
+    }
+    return chunks;
+  }
+
+  private async splitDocument(doc: DocumentInterface): Promise<DocumentInterface[]> {
+    const source = this.normalizeSource(doc.metadata?.source);
+    const baseMetadata = { ...doc.metadata, source, department: this.options.department };
+    const isMarkdown = /\.(md|markdown)$/i.test(source) || doc.metadata?.[CONTENT_FORMAT_KEY] === "markdown";
+    const sections: MarkdownSection[] = isMarkdown
+      ? parseSections(doc.pageContent)
+      : [{ body: doc.pageContent }];
+
+    const chunks: DocumentInterface[] = [];
+    for (const section of sections) {
+      const text = section.heading ? `${section.heading}\n${section.body}`.trim() : section.body.trim();
+      if (!text) {
+        continue;
+      }
+      const sectionLabel = section.heading ? sectionLabelFor(section.heading) : undefined;
+      const sectionKbId = text.match(KB_ID_PATTERN)?.[0];
+      const pieces = await this.fallback.splitText(text);
+      for (const piece of pieces) {
+        const kbId = piece.match(KB_ID_PATTERN)?.[0] ?? sectionKbId;
+        chunks.push(
+          new Document({
+            pageContent: piece,
+            metadata: {
+              ...baseMetadata,
+              ...(sectionLabel ? { section: sectionLabel } : {}),
+              ...(kbId ? { kb_id: kbId } : {})
+            }
+          })
+        );
+      }
+    }
+    return chunks;
+  }
+
+  private normalizeSource(source: unknown): string {
+    if (typeof source !== "string") {
+      return "unknown";
+    }
+    if (!this.options.sourceRoot || !path.isAbsolute(source)) {
+      return source;
+    }
+    return path.relative(this.options.sourceRoot, source).split(path.sep).join("/");
+  }
+}
+
+function parseSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection = { body: "" };
+  for (const line of markdown.split(/\r?\n/)) {
+    if (HEADING_PATTERN.test(line)) {
+      if (current.heading || current.body.trim()) {
+        sections.push(current);
+      }
+      current = { heading: line.trim(), body: "" };
+      continue;
+    }
+    current.body += `${line}\n`;
+  }
+  if (current.heading || current.body.trim()) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+function sectionLabelFor(heading: string): string {
+  const title = heading.match(HEADING_PATTERN)?.[2] ?? heading;
+  const numbered = title.match(SECTION_LABEL_PATTERN);
+  if (numbered) {
+    return numbered[2] ? `${numbered[1]}: ${numbered[2]}` : numbered[1];
+  }
+  return title.replace(/:$/, "");
+}
@@ -0,0 +1,153 @@
+import type { BaseMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+
+/** The slice of `ChatOpenAI` the agents rely on, so wrappers and stand-ins can replace it. */
+export interface ChatModelLike {
+  invoke(input: BaseMessage[], config?: RunnableConfig): Promise<BaseMessage>;
+}
+
+export type LlmFailureKind = "timeout" | "rate_limit" | "unavailable" | "rejected" | "invalid_output" | "unknown";
+
+export interface LlmAttempt {
+  model: string;
+  attempt: number;
+  kind: LlmFailureKind;
+  message: string;
+}
+
+/** Raised once every model in the fallback chain has exhausted its retries. */
+export class LlmInvocationError extends Error {
+  constructor(
+    readonly kind: LlmFailureKind,
+    readonly attempts: LlmAttempt[]
+  ) {
+    const last = attempts[attempts.length - 1];
+    super(`LLM call failed after ${attempts.length} attempt(s): ${last ? `${last.model}: ${last.message}` : kind}`);
+    this.name = "LlmInvocationError";
+  }
+}
+
+class LlmTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+export function classifyLlmError(error: any): LlmFailureKind {
+  if (error instanceof LlmInvocationError) {
+    return error.kind;
+  }
+  if (error instanceof LlmTimeoutError || error?.name === "AbortError" || error?.name === "TimeoutError") {
+    return "timeout";
+  }
+  const status = Number(error?.status ?? error?.response?.status);
+  if (status === 429 || /rate.?limit/i.test(error?.message ?? "")) {
+    return "rate_limit";
+  }
+  if (status === 408) {
+    return "timeout";
+  }
+  if (status >= 500 || ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND"].includes(error?.code)) {
+    return "unavailable";
+  }
+  if (/fetch failed|network|socket hang up/i.test(error?.message ?? "")) {
+    return "unavailable";
+  }
+  if (status >= 400) {
+    return "rejected";
+  }
+  return "unknown";
+}
+
+export interface ResilientChatModelOptions {
+  /** Retries per model after the first attempt. */
+  maxRetries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+}
+
+export interface NamedChatModel {
+  name: string;
+  model: ChatModelLike;
+}
+
+/**
+ * Calls an ordered list of models: each gets exponential-backoff retries on transient
+ * failures (timeouts, rate limits, 5xx, network errors) before the next model is tried.
+ * Rejections such as 400/401/404 skip straight to the next model.
+ */
+export class ResilientChatModel implements ChatModelLike {
+  private readonly maxRetries: number;
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly models: NamedChatModel[],
+    options: ResilientChatModelOptions = {}
+  ) {
+    if (!models.length) {
+      throw new Error("ResilientChatModel needs at least one model.");
+    }
+    this.maxRetries = options.maxRetries ?? 2;
+    this.initialDelayMs = options.initialDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 8000;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  async invoke(input: BaseMessage[], config?: RunnableConfig): Promise<BaseMessage> {
+    const attempts: LlmAttempt[] = [];
+    for (const { name, model } of this.models) {
+      for (let attempt = 0; attempt <= this.maxRetries; attempt += 1) {
+        if (config?.signal?.aborted) {
+          throw config.signal.reason ?? new Error("LLM call aborted.");
+        }
+        try {
+          return await this.invokeWithTimeout(model, input, config);
+        } catch (error: any) {
+          const kind = classifyLlmError(error);
+          attempts.push({ model: name, attempt: attempt + 1, kind, message: error?.message ?? String(error) });
+          if (kind === "rejected" || attempt === this.maxRetries) {
+            break;
+          }
+          await sleep(this.backoff(attempt));
+        }
+      }
+    }
+    throw new LlmInvocationError(attempts[attempts.length - 1]?.kind ?? "unknown", attempts);
+  }
+
+  private async invokeWithTimeout(
+    model: ChatModelLike,
+    input: BaseMessage[],
+    config?: RunnableConfig
+  ): Promise<BaseMessage> {
+    const controller = new AbortController();
+    const signal = config?.signal ? AbortSignal.any([config.signal, controller.signal]) : controller.signal;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new LlmTimeoutError(this.timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, this.timeoutMs);
+    });
+    try {
+      return await Promise.race([model.invoke(input, { ...config, signal }), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.initialDelayMs * 2 ** attempt);
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
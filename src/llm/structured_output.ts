@@ -0,0 +1,143 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { ChatModelLike } from "./resilient_chat_model.js";
+
+export interface OutputParserLike<T = unknown> {
+  parse(text: string): Promise<T>;
+  getFormatInstructions(): string;
+}
+
+/** Raised when a reply still fails schema validation after lenient extraction and re-prompting. */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly rawOutput: string
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export interface StructuredInvokeOptions {
+  /** Re-prompts sent with the validation error before giving up. */
+  repairAttempts?: number;
+}
+
+/**
+ * Invokes the model and parses its reply. When strict parsing fails, the first JSON
+ * object in the reply is extracted leniently (code fences, prose, trailing commas);
+ * if that also fails, the model is re-prompted with the validation error.
+ */
+export async function invokeStructured<T>(
+  llm: ChatModelLike,
+  messages: BaseMessage[],
+  parser: OutputParserLike<T>,
+  config?: RunnableConfig,
+  options: StructuredInvokeOptions = {}
+): Promise<T> {
+  const repairAttempts = options.repairAttempts ?? 1;
+  let conversation = messages;
+  let lastError: unknown;
+  let text = "";
+  for (let attempt = 0; attempt <= repairAttempts; attempt += 1) {
+    const response = await llm.invoke(conversation, config);
+    text = messageText(response);
+    try {
+      return await parseLeniently(parser, text);
+    } catch (error) {
+      lastError = error;
+      conversation = [
+        ...messages,
+        new AIMessage(text),
+        new HumanMessage(
+          `Your previous reply could not be parsed: ${(error as Error)?.message ?? String(error)}\nReply again with only the JSON object, following: ${parser.getFormatInstructions()}`
+        )
+      ];
+    }
+  }
+  throw new StructuredOutputError(
+    `Model output did not match the expected schema: ${(lastError as Error)?.message ?? String(lastError)}`,
+    text
+  );
+}
+
+async function parseLeniently<T>(parser: OutputParserLike<T>, text: string): Promise<T> {
+  try {
+    return await parser.parse(text);
+  } catch (error) {
+    const candidate = extractJsonObject(text);
+    if (candidate === undefined) {
+      throw error;
+    }
+    return parser.parse(candidate);
+  }
+}
+
+/** Returns the first balanced `{...}` block in `text` as normalized JSON, if any parses. */
+export function extractJsonObject(text: string): string | undefined {
+  for (let start = text.indexOf("{"); start !== -1; start = text.indexOf("{", start + 1)) {
+    const end = matchingBrace(text, start);
+    if (end === -1) {
+      continue;
+    }
+    const raw = text.slice(start, end + 1);
+    for (const candidate of [raw, raw.replace(/,\s*([}\]])/g, "$1")]) {
+      try {
+        return JSON.stringify(JSON.parse(candidate));
+      } catch {
+        // Try the next repair or the next opening brace.
+      }
+    }
+  }
+  return undefined;
+}
+
+function matchingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let idx = start; idx < text.length; idx += 1) {
+    const char = text[idx];
+    if (inString) {
+      if (char === "\\") {
+        idx += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return idx;
+      }
+    }
+  }
+  return -1;
+}
+
+export function messageText(message: BaseMessage): string {
+  const content = message.content;
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((chunk) => {
+        if (typeof chunk === "string") {
+          return chunk;
+        }
+        if ("text" in chunk && typeof chunk.text === "string") {
+          return chunk.text;
+        }
+        return "";
+      })
+      .join("")
+      .trim();
+  }
+  return "";
+}
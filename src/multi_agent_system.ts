@@ -2,29 +2,146 @@
  * ## 1. Setup & Imports
  */
 import 'dotenv/config';
+import { stat } from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { ChatOpenAI, OpenAIEmbeddings } from '@langchain/openai';
-import { DirectoryLoader } from 'langchain/document_loaders/fs/directory';
-import { TextLoader } from 'langchain/document_loaders/fs/text';
-import { CSVLoader } from '@langchain/community/document_loaders/fs/csv';
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
 import type { DocumentInterface } from '@langchain/core/documents';
+import { RunnableLambda } from '@langchain/core/runnables';
 import type { RunnableConfig } from '@langchain/core/runnables';
+import type { VectorStore } from '@langchain/core/vectorstores';
 import { CallbackHandler as LangfuseCallbackHandler } from '@langfuse/langchain';
-import { Pinecone } from '@pinecone-database/pinecone';
-import type { Index } from '@pinecone-database/pinecone';
-import { PineconeStore } from '@langchain/pinecone';
+import { Langfuse } from 'langfuse';
 import { OrchestratorAgent } from './agents/orchestrator.js';
-import { createHrAgent } from './agents/hr_agent.js';
-import { createTechAgent } from './agents/tech_agent.js';
-import { createFinanceAgent } from './agents/finance_agent.js';
+import type { ClarificationAnswer } from './agents/orchestrator.js';
+import { decideConfidenceAction } from './agents/confidence_policy.js';
+import type { ConfidencePolicy } from './agents/confidence_policy.js';
+import { createDepartmentAgent } from './agents/department_agent.js';
+import { UNKNOWN_INTENT } from './agents/types.js';
 import type { DepartmentIntent } from './agents/types.js';
 import { DomainRagAgent } from './agents/domain_agent.js';
+import { loadDepartmentRegistry } from './agents/department_registry.js';
+import type {
+  DepartmentDefinition,
+  DepartmentRegistry,
+} from './agents/department_registry.js';
+import type {
+  CitationMode,
+  CitationVerificationOptions,
+} from './agents/citation_verifier.js';
+import { parseVectorStoreKind } from './vector_stores/provider.js';
+import type { VectorStoreProvider } from './vector_stores/provider.js';
+import { PineconeVectorStoreProvider } from './vector_stores/pinecone_provider.js';
+import { LocalVectorStoreProvider } from './vector_stores/local_provider.js';
+import { knowledgeBaseVersion, syncNamespace } from './vector_stores/sync.js';
+import type { SyncReport } from './vector_stores/sync.js';
+import { HybridRetriever } from './retrieval/hybrid_retriever.js';
+import { KeywordIndex } from './retrieval/keyword_index.js';
+import { createReranker } from './retrieval/rerankers.js';
+import { VectorRetriever } from './retrieval/vector_retriever.js';
+import { createToolRegistry } from './tools/stub_tools.js';
+import { SectionAwareSplitter } from './ingestion/section_splitter.js';
+import {
+  SIDECAR_SUFFIX,
+  isSidecarFile,
+  isSupportedDocument,
+  loadDocumentDirectory,
+  loadDocumentFile,
+} from './ingestion/document_loaders.js';
+import { watchDocuments } from './ingestion/document_watcher.js';
+import type { DocumentChange } from './ingestion/document_watcher.js';
+import { QueryRewriter } from './agents/query_rewriter.js';
+import {
+  QuestionTranslator,
+  describeLanguage,
+} from './agents/question_translator.js';
+import type { DetectedLanguage } from './agents/question_translator.js';
+import { SynthesizerAgent } from './agents/synthesizer.js';
+import type { SynthesizedAnswer } from './agents/synthesizer.js';
+import {
+  FileConversationStore,
+  InMemoryConversationStore,
+  summarizeConversation,
+} from './conversation/conversation_store.js';
+import type {
+  ConversationExchange,
+  ConversationStore,
+} from './conversation/conversation_store.js';
 import type {
   RetrieverLike,
   DomainAgentResult,
 } from './agents/domain_agent.js';
+import {
+  RubricEvaluator,
+  describeShortfalls,
+  traceIdFromConfig,
+} from './evaluation/rubric_evaluator.js';
+import type { RubricEvaluation } from './evaluation/rubric_evaluator.js';
+import {
+  ResilientChatModel,
+  classifyLlmError,
+} from './llm/resilient_chat_model.js';
+import type {
+  ChatModelLike,
+  LlmFailureKind,
+} from './llm/resilient_chat_model.js';
+import { StructuredOutputError } from './llm/structured_output.js';
+import {
+  FileAnswerCacheStore,
+  InMemoryAnswerCacheStore,
+  SemanticAnswerCache,
+} from './cache/semantic_answer_cache.js';
+import type { CacheLookup } from './cache/semantic_answer_cache.js';
+import { PiiGuard, loadPiiConfig } from './guardrails/pii_guard.js';
+import {
+  FileAccessAuditLog,
+  isRestricted,
+} from './access/access_control.js';
+import type {
+  AccessAuditLog,
+  CallerIdentity,
+} from './access/access_control.js';
+import {
+  EscalationService,
+  InMemoryTicketAdapter,
+  JsonlTicketAdapter,
+  WebhookTicketAdapter,
+} from './escalation/escalation.js';
+import type {
+  EscalationOutcome,
+  TicketAdapter,
+} from './escalation/escalation.js';
+import type { PiiMode } from './guardrails/pii_guard.js';
+import {
+  UsageTracker,
+  describeUsage,
+  loadPriceTable,
+  meterEmbeddings,
+  trackEmbeddings,
+  usageStepMetadata,
+} from './usage/usage_tracker.js';
+import { MeteredOpenAIEmbeddings } from './usage/metered_embeddings.js';
+import type {
+  BudgetExceeded,
+  PriceTable,
+  RouteUsage,
+  UsageBudget,
+  UsageTotals,
+} from './usage/usage_tracker.js';
+import { Cassette, CassetteRecorder } from './replay/cassette.js';
+import type { RecordedRouterSettings } from './replay/cassette.js';
+import {
+  RecordingChatModel,
+  RecordingRetriever,
+} from './replay/recording.js';
+import {
+  ReplayChatModel,
+  ReplayRetriever,
+  describeReplay,
+  replayCassette,
+} from './replay/replay.js';
+import { runRepl } from './cli/repl.js';
+import { printRouteResult } from './cli/route_output.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -52,12 +169,127 @@ const EMBEDDING_DIM = (() => {
   return parsed;
 })();
 
+const DEPARTMENTS_CONFIG = path.resolve(
+  rootDir,
+  process.env.DEPARTMENTS_CONFIG ?? 'departments.json'
+);
+const VECTOR_STORE_PROVIDER = parseVectorStoreKind(
+  process.env.VECTOR_STORE_PROVIDER
+);
+const LOCAL_VECTOR_STORE_DIR = path.resolve(
+  rootDir,
+  process.env.LOCAL_VECTOR_STORE_DIR ?? '.vectorstore'
+);
 const PINECONE_API_KEY = process.env.PINECONE_API_KEY ?? '';
 const PINECONE_INDEX = process.env.PINECONE_INDEX ?? '';
 const PINECONE_CONTROLLER_HOST = process.env.PINECONE_CONTROLLER_HOST;
 const PINECONE_NAMESPACE_PREFIX =
   process.env.PINECONE_NAMESPACE_PREFIX ?? 'dept';
-const SHOULD_SEED_PINECONE = process.env.PINECONE_SKIP_SEED !== 'true';
+const SHOULD_SEED_VECTOR_STORE =
+  (process.env.VECTOR_STORE_SKIP_SEED ?? process.env.PINECONE_SKIP_SEED) !==
+  'true';
+const CONVERSATION_STORE = process.env.CONVERSATION_STORE ?? 'memory';
+const CONVERSATION_STORE_DIR = path.resolve(
+  rootDir,
+  process.env.CONVERSATION_STORE_DIR ?? '.sessions'
+);
+const ROUTER_EXECUTION_MODE: ExecutionMode =
+  process.env.ROUTER_EXECUTION_MODE === 'parallel' ? 'parallel' : 'sequential';
+const SYNTHESIZE_ANSWERS = process.env.SYNTHESIZE_ANSWERS !== 'false';
+const CITATION_MODE: CitationMode =
+  process.env.CITATION_MODE === 'flag' ? 'flag' : 'drop';
+const REQUIRE_GROUNDED_ANSWERS =
+  process.env.REQUIRE_GROUNDED_ANSWERS === 'true';
+const EVALUATE_TURNS = process.env.EVALUATE_TURNS ?? 'off';
+const EVALUATION_MIN_SCORE = Number(process.env.EVALUATION_MIN_SCORE ?? '6');
+const EVALUATOR_MODEL =
+  process.env.EVALUATOR_OPENROUTER_MODEL ?? OPENROUTER_MODEL;
+const OPENROUTER_FALLBACK_MODELS = (process.env.OPENROUTER_FALLBACK_MODELS ?? '')
+  .split(',')
+  .map((model) => model.trim())
+  .filter(Boolean);
+const LLM_MAX_RETRIES = parseNonNegativeInt('LLM_MAX_RETRIES', '2');
+const LLM_TIMEOUT_MS = parseNonNegativeInt('LLM_TIMEOUT_MS', '30000');
+const ANSWER_CACHE = process.env.ANSWER_CACHE ?? 'off';
+const ANSWER_CACHE_THRESHOLD = Number(
+  process.env.ANSWER_CACHE_THRESHOLD ?? '0.92'
+);
+const ANSWER_CACHE_TTL_SECONDS = parseNonNegativeInt(
+  'ANSWER_CACHE_TTL_SECONDS',
+  '86400'
+);
+const ANSWER_CACHE_PATH = path.resolve(
+  rootDir,
+  process.env.ANSWER_CACHE_PATH ?? '.cache/answers.json'
+);
+const PII_GUARDRAIL = process.env.PII_GUARDRAIL ?? 'tokenize';
+const ACCESS_AUDIT_LOG = path.resolve(
+  rootDir,
+  process.env.ACCESS_AUDIT_LOG ?? '.audit/access.jsonl'
+);
+const ESCALATION_ADAPTER = process.env.ESCALATION_ADAPTER ?? 'file';
+const ESCALATION_TICKETS_PATH = path.resolve(
+  rootDir,
+  process.env.ESCALATION_TICKETS_PATH ?? '.tickets/escalations.jsonl'
+);
+const ESCALATION_DEFAULT_TEAM =
+  process.env.ESCALATION_DEFAULT_TEAM ?? 'Employee Help Desk';
+const CONFIDENCE_CLARIFY_BELOW = Number(
+  process.env.CONFIDENCE_CLARIFY_BELOW ?? '0.4'
+);
+const CONFIDENCE_CAVEAT_BELOW = Number(
+  process.env.CONFIDENCE_CAVEAT_BELOW ?? '0.7'
+);
+const CONFIDENCE_MAX_CANDIDATES = parseNonNegativeInt(
+  'CONFIDENCE_MAX_CANDIDATES',
+  '2'
+);
+const USAGE_PRICES = process.env.USAGE_PRICES
+  ? path.resolve(rootDir, process.env.USAGE_PRICES)
+  : undefined;
+const ROUTE_MAX_TOKENS = parseNonNegativeInt('ROUTE_MAX_TOKENS', '0');
+const ROUTE_MAX_COST_USD = Number(process.env.ROUTE_MAX_COST_USD ?? '0');
+const WATCH_DOCUMENTS = process.env.WATCH_DOCUMENTS === 'true';
+const TRANSLATE_QUESTIONS = process.env.TRANSLATE_QUESTIONS !== 'false';
+const CORPUS_LANGUAGE = process.env.CORPUS_LANGUAGE ?? 'en';
+const PII_CONFIG = process.env.PII_CONFIG
+  ? path.resolve(rootDir, process.env.PII_CONFIG)
+  : undefined;
+
+function parseNonNegativeInt(name: string, fallback: string): number {
+  const parsed = Number(process.env[name] ?? fallback);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer.`);
+  }
+  return parsed;
+}
+
+/**
+ * Raw OpenRouter chat model. Retries are disabled here because `ResilientChatModel`
+ * owns retry, timeout, and fallback policy.
+ */
+export function createChatModel(model = OPENROUTER_MODEL): ChatOpenAI {
+  return new ChatOpenAI({
+    temperature: 0,
+    model,
+    apiKey: OPENROUTER_API_KEY,
+    maxRetries: 0,
+    configuration: {
+      baseURL: OPENROUTER_BASE_URL,
+    },
+  });
+}
+
+/** `model` first, then `OPENROUTER_FALLBACK_MODELS`, with shared retry and timeout settings. */
+export function createResilientChatModel(
+  model = OPENROUTER_MODEL
+): ResilientChatModel {
+  const chain = [...new Set([model, ...OPENROUTER_FALLBACK_MODELS])];
+  return new ResilientChatModel(
+    chain.map((name) => ({ name, model: createChatModel(name) })),
+    { maxRetries: LLM_MAX_RETRIES, timeoutMs: LLM_TIMEOUT_MS }
+  );
+}
 
 /**
  * ## 2. Document Loading & Vector Stores
@@ -65,94 +297,189 @@ const SHOULD_SEED_PINECONE = process.env.PINECONE_SKIP_SEED !== 'true';
 async function loadDocuments(
   domainFolder: string
 ): Promise<DocumentInterface[]> {
-  const folderPath = path.join(dataDir, domainFolder);
-  const loader = new DirectoryLoader(folderPath, {
-    '.md': (filePath: string) => new TextLoader(filePath),
-    '.txt': (filePath: string) => new TextLoader(filePath),
-    '.csv': (filePath: string) => new CSVLoader(filePath),
-  });
-  const docs = await loader.load();
-  return docs;
+  return loadDocumentDirectory(path.join(dataDir, domainFolder));
 }
 
-let pineconeIndexPromise: Promise<Index> | null = null;
+function createSplitter(department: DepartmentDefinition): SectionAwareSplitter {
+  return new SectionAwareSplitter({
+    department: department.intent,
+    sourceRoot: rootDir,
+  });
+}
 
-async function resolvePineconeIndex(): Promise<Index> {
-  if (!PINECONE_API_KEY || !PINECONE_INDEX) {
-    throw new Error(
-      'Pinecone configuration missing. Set PINECONE_API_KEY and PINECONE_INDEX.'
-    );
+function resolveVectorStoreProvider(
+  embeddings: OpenAIEmbeddings
+): VectorStoreProvider {
+  if (VECTOR_STORE_PROVIDER === 'local') {
+    return new LocalVectorStoreProvider(embeddings, LOCAL_VECTOR_STORE_DIR);
   }
-  if (!pineconeIndexPromise) {
-    const pinecone = new Pinecone({
-      apiKey: PINECONE_API_KEY,
-      ...(PINECONE_CONTROLLER_HOST
-        ? { controllerHostUrl: PINECONE_CONTROLLER_HOST }
-        : {}),
-    });
-    pineconeIndexPromise = Promise.resolve(pinecone.index(PINECONE_INDEX));
-  }
-  return pineconeIndexPromise;
+  return new PineconeVectorStoreProvider(embeddings, {
+    apiKey: PINECONE_API_KEY,
+    indexName: PINECONE_INDEX,
+    controllerHost: PINECONE_CONTROLLER_HOST,
+  });
+}
+
+interface DepartmentIndex {
+  store: VectorStore;
+  namespace: string;
+  /** Split chunks backing the vector namespace, reused for the keyword index. */
+  chunks: DocumentInterface[];
+  keywordIndex: KeywordIndex;
+  /** Digest of the indexed chunks; changes whenever the department is re-indexed. */
+  version: string;
+  provider: VectorStoreProvider;
+}
+
+export interface ReindexReport extends SyncReport {
+  department: DepartmentIntent;
+  /** Embedding calls made to index the file's new or changed chunks. */
+  usage: UsageTotals;
+  /** Project-relative path of the file, as stored in chunk `source` metadata. */
+  source: string;
+  change: DocumentChange;
+  /** Knowledge-base version after the change. */
+  version: string;
 }
 
 async function buildVectorStore(
-  domainFolder: string,
-  embeddings: OpenAIEmbeddings,
-  pineconeIndex: Index
-): Promise<PineconeStore> {
+  department: DepartmentDefinition,
+  provider: VectorStoreProvider,
+  prices: PriceTable,
+  log: (message: string) => void
+): Promise<DepartmentIndex> {
+  const domainFolder = department.dataFolder;
   const docs = await loadDocuments(domainFolder);
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize: 250,
-    chunkOverlap: 40,
-  });
-  const splitDocs = await splitter.splitDocuments(docs);
-  const namespace = namespaceForDomain(domainFolder);
-  const store = await PineconeStore.fromExistingIndex(embeddings, {
-    pineconeIndex,
-    namespace,
-  });
-  if (SHOULD_SEED_PINECONE) {
-    try {
-      await store.delete({ deleteAll: true, namespace });
-    } catch (error: any) {
-      if (typeof error?.message === 'string' && error.message.includes('404')) {
-        console.warn(
-          `Pinecone namespace ${namespace} not found yet. Skipping delete.`
-        );
-      } else {
-        throw error;
-      }
-    }
-    const ids = splitDocs.map((_, idx) => `${namespace}-${idx}`);
-    await store.addDocuments(splitDocs, { ids, namespace });
+  const splitDocs = await createSplitter(department).splitDocuments(docs);
+  const namespace = namespaceForDomain(department.namespace ?? domainFolder);
+  const store = await provider.open(namespace);
+  if (SHOULD_SEED_VECTOR_STORE) {
+    const { usage, ...report } = await meteredSync(
+      provider,
+      namespace,
+      splitDocs,
+      prices
+    );
+    log(
+      `Indexed ${domainFolder} → ${namespace}: ${report.added} added, ${report.updated} updated, ${report.deleted} deleted, ${report.unchanged} unchanged${describeIndexingUsage(usage)}.`
+    );
   }
-  return store;
+  return {
+    store,
+    namespace,
+    chunks: splitDocs,
+    keywordIndex: new KeywordIndex(splitDocs),
+    version: knowledgeBaseVersion(namespace, splitDocs),
+    provider,
+  };
+}
+
+/**
+ * Re-loads one file and swaps its chunks into the department index. The namespace
+ * sync then embeds only that file's new or edited chunks and deletes its stale ones;
+ * the keyword index and knowledge-base version are refreshed in place.
+ */
+async function reindexDocument(
+  department: DepartmentDefinition,
+  index: DepartmentIndex,
+  filePath: string,
+  prices: PriceTable
+): Promise<ReindexReport> {
+  const exists = Boolean(await stat(filePath).catch(() => undefined));
+  const docs = exists
+    ? await loadDocumentFile(filePath, path.join(dataDir, department.dataFolder))
+    : [];
+  const fresh = await createSplitter(department).splitDocuments(docs);
+  const source = path.relative(rootDir, filePath).split(path.sep).join('/');
+  const position = index.chunks.findIndex(
+    (chunk) => chunk.metadata?.source === source
+  );
+  const kept = index.chunks.filter((chunk) => chunk.metadata?.source !== source);
+  // Keeping the file's place preserves the chunk order a full reload produces.
+  const chunks =
+    position === -1
+      ? [...kept, ...fresh]
+      : [...kept.slice(0, position), ...fresh, ...kept.slice(position)];
+  const report = await meteredSync(
+    index.provider,
+    index.namespace,
+    chunks,
+    prices
+  );
+  index.chunks = chunks;
+  index.keywordIndex.reset(chunks);
+  index.version = knowledgeBaseVersion(index.namespace, chunks);
+  return {
+    ...report,
+    department: department.intent,
+    source,
+    change: exists ? 'changed' : 'removed',
+    version: index.version,
+  };
 }
 
-function createRetriever(store: PineconeStore): RetrieverLike {
-  return store.asRetriever({ k: 5 }) as unknown as RetrieverLike;
+/** Syncs a namespace and totals the embedding calls the sync made. */
+async function meteredSync(
+  provider: VectorStoreProvider,
+  namespace: string,
+  chunks: DocumentInterface[],
+  prices: PriceTable
+): Promise<SyncReport & { usage: UsageTotals }> {
+  const tracker = new UsageTracker(prices);
+  const report = await meterEmbeddings(tracker.embeddingSink('indexing'), () =>
+    syncNamespace(provider, namespace, chunks)
+  );
+  return { ...report, usage: tracker.totals() };
+}
+
+function describeIndexingUsage(usage: UsageTotals): string {
+  return usage.calls ? `; embeddings: ${describeUsage(usage)}` : '';
+}
+
+function createRetriever(
+  { store, keywordIndex, provider }: DepartmentIndex,
+  settings: DepartmentDefinition['retriever']
+): RetrieverLike {
+  const accessFilter = provider.accessFilter.bind(provider);
+  if (settings.mode === 'vector') {
+    return new VectorRetriever(store, settings.k, accessFilter);
+  }
+  const candidateK = settings.candidateK ?? settings.k * 4;
+  return new HybridRetriever({
+    vectorRetriever: new VectorRetriever(store, candidateK, accessFilter),
+    keywordIndex,
+    k: settings.k,
+    candidateK,
+    vectorWeight: settings.vectorWeight,
+    keywordWeight: settings.keywordWeight,
+  });
 }
 
 /**
  * ## 3. Agent Definitions
  */
 async function buildAgents(
-  llm: ChatOpenAI,
-  stores: Record<string, PineconeStore>
-) {
-  const hrAgent = await createHrAgent(llm, createRetriever(stores.hr));
-  const techAgent = await createTechAgent(llm, createRetriever(stores.tech));
-  const financeAgent = await createFinanceAgent(
-    llm,
-    createRetriever(stores.finance)
-  );
-
-  const agentMap = {
-    hr: hrAgent,
-    tech: techAgent,
-    finance: financeAgent,
-  } satisfies Record<Exclude<DepartmentIntent, 'unknown'>, DomainRagAgent>;
-
+  llm: ChatModelLike,
+  registry: DepartmentRegistry,
+  retrievers: Record<DepartmentIntent, RetrieverLike>,
+  restrictedContent: (intent: DepartmentIntent) => boolean,
+  citations: CitationVerificationOptions
+): Promise<Record<DepartmentIntent, DomainRagAgent>> {
+  const agentMap: Record<DepartmentIntent, DomainRagAgent> = {};
+  for (const department of registry.departments) {
+    agentMap[department.intent] = await createDepartmentAgent(
+      llm,
+      retrievers[department.intent],
+      department,
+      registry,
+      citations,
+      createReranker(department.relevance.reranker, llm),
+      restrictedContent(department.intent),
+      department.tools.length
+        ? createToolRegistry(department.tools)
+        : undefined
+    );
+  }
   return agentMap;
 }
 
@@ -163,12 +490,61 @@ function namespaceForDomain(domainFolder: string): string {
   return `${PINECONE_NAMESPACE_PREFIX}-${slug}`.toLowerCase();
 }
 
+export function loadDepartments(): Promise<DepartmentRegistry> {
+  return loadDepartmentRegistry(DEPARTMENTS_CONFIG, dataDir);
+}
+
 /**
  * ## 4. Orchestrator & Routing
  */
-interface AgentTurn {
+export interface AgentTurn {
   intentTried: DepartmentIntent;
   response: DomainAgentResult;
+  /** Rubric result when the router's quality gate is enabled. */
+  quality?: TurnQuality;
+  /** Set when the agent failed; `response` then holds a placeholder answer. */
+  error?: RouteError;
+  /** LLM usage of this turn, including its evaluation and any retry. */
+  usage?: UsageTotals;
+}
+
+export type RouteStage =
+  | 'rewrite'
+  | 'translation'
+  | 'classification'
+  | 'turn'
+  | 'evaluation'
+  | 'synthesis'
+  | 'cache'
+  | 'audit'
+  | 'escalation';
+
+/** A recovered failure: routing continued, but this step was skipped or degraded. */
+export interface RouteError {
+  stage: RouteStage;
+  intent?: DepartmentIntent;
+  kind: LlmFailureKind;
+  message: string;
+}
+
+export type QualityGateMode = 'flag' | 'retry';
+
+export interface QualityGateOptions {
+  evaluator: RubricEvaluator;
+  /** Turns whose overall rubric score falls below this are retried or flagged. */
+  minScore: number;
+  /** `retry` re-runs a weak turn once with a stricter prompt before flagging it. */
+  mode: QualityGateMode;
+}
+
+export interface TurnQuality {
+  /** Evaluation of the answer in `response`; unset when a retried answer could not be scored. */
+  evaluation?: RubricEvaluation;
+  /** Overall score is still below the threshold after any retry. */
+  lowQuality: boolean;
+  retried: boolean;
+  /** Evaluation of the rejected first draft when the turn was retried. */
+  initialEvaluation?: RubricEvaluation;
 }
 
 interface IntentQueueItem {
@@ -176,77 +552,1099 @@ interface IntentQueueItem {
   note?: string;
 }
 
-interface RouteResult {
+interface TurnContext {
+  question: string;
+  conversation: string;
+  config?: RunnableConfig;
+  events?: RouteEventListener;
+  traceId?: string;
+  errors: RouteError[];
+  caller?: CallerIdentity;
+  sessionId?: string;
+  usage?: UsageScope;
+  /** Set when the employee wrote in another language than the corpus. */
+  language?: DetectedLanguage;
+}
+
+interface UsageScope {
+  tracker: UsageTracker;
+  budget?: UsageBudget;
+  /** Set once the budget stopped further turns. */
+  exceeded?: BudgetExceeded['limit'];
+}
+
+const MAX_TURNS = 5;
+
+function withTraceMetadata(
+  config: RunnableConfig | undefined,
+  metadata: Record<string, unknown>
+): RunnableConfig {
+  return { ...config, metadata: { ...config?.metadata, ...metadata } };
+}
+
+/**
+ * Only complete, error-free answers from real departments are worth reusing, and
+ * only when they rest on unrestricted content and no caller-specific tool results,
+ * since cache hits ignore the caller.
+ */
+function isCacheable(result: RouteResult): boolean {
+  return (
+    !result.errors.length &&
+    result.turns.length > 0 &&
+    !result.unresolvedIntents.length &&
+    !result.lowQualityIntents?.length &&
+    !result.escalation &&
+    result.turns.every(
+      (turn) =>
+        !turn.response.toolCalls?.length &&
+        !turn.response.restricted &&
+        turn.response.retrieved.every((chunk) => !chunk.restricted)
+    )
+  );
+}
+
+function restoreTurn(
+  turn: AgentTurn,
+  restore: (text: string) => string
+): AgentTurn {
+  return {
+    ...turn,
+    response: { ...turn.response, text: restore(turn.response.text) },
+  };
+}
+
+function restoreSynthesis(
+  synthesis: SynthesizedAnswer,
+  restore: (text: string) => string
+): SynthesizedAnswer {
+  return {
+    ...synthesis,
+    text: restore(synthesis.text),
+    statements: synthesis.statements.map((statement) => ({
+      ...statement,
+      text: restore(statement.text),
+    })),
+  };
+}
+
+function toRouteError(
+  stage: RouteStage,
+  error: unknown,
+  intent?: DepartmentIntent
+): RouteError {
+  return {
+    stage,
+    ...(intent ? { intent } : {}),
+    kind:
+      error instanceof StructuredOutputError
+        ? 'invalid_output'
+        : classifyLlmError(error),
+    message: (error as Error)?.message ?? String(error),
+  };
+}
+
+export type ExecutionMode = 'sequential' | 'parallel';
+
+export interface RouteResult {
   classification: Awaited<ReturnType<OrchestratorAgent['classify']>>;
   turns: AgentTurn[];
   unresolvedIntents: DepartmentIntent[];
+  /**
+   * Question used for classification and retrieval after follow-up rewriting and
+   * translation into the corpus language.
+   */
+  standaloneQuestion: string;
+  /** Unified answer merged from every turn when more than one department answered. */
+  synthesis?: SynthesizedAnswer;
+  sessionId?: string;
+  /** Intents whose turns failed the quality gate; present only when the gate is enabled. */
+  lowQualityIntents?: DepartmentIntent[];
+  /** Steps that failed after retries and fallbacks; other steps' results are kept. */
+  errors: RouteError[];
+  /** Present when the semantic answer cache is enabled. */
+  cache?: RouteCacheInfo;
+  /** Present when the PII guardrail is enabled; counts only, never the values. */
+  pii?: RoutePiiInfo;
+  /** Ticket raised because the request could not be fully answered; a human will follow up. */
+  escalation?: EscalationOutcome;
+  /** Set instead of turns when confidence was too low to route; the user's reply resolves it. */
+  clarification?: RouteClarification;
+  /** Warning shown with answers from a low-confidence classification. */
+  caveat?: string;
+  /** Tokens, latency, and estimated cost of every LLM call; present when usage tracking is enabled. */
+  usage?: RouteUsage;
+  /** Language the employee wrote in, which answers follow; present when translation is enabled. */
+  language?: DetectedLanguage;
+}
+
+export interface ClarificationOption {
+  intent: DepartmentIntent;
+  agent: string;
+  confidence: number;
+}
+
+export interface RouteClarification {
+  question: string;
+  candidates: ClarificationOption[];
+  /** Question that needed clarifying; pass this object back as `clarifies` when not using sessions. */
+  originalQuestion: string;
+}
+
+export interface RoutePiiInfo {
+  mode: PiiMode;
+  /** Detected PII occurrences per category, e.g. `{ ssn: 1, salary: 1 }`. */
+  categories: Record<string, number>;
+}
+
+export interface RouteCacheInfo {
+  status: 'hit' | 'miss';
+  similarity?: number;
+  cachedAt?: string;
+  /** Earlier question whose answer was reused. */
+  matchedQuestion?: string;
+}
+
+/** Request-specific fields are stripped before a result is cached. */
+export type CachedRouteResult = Omit<
+  RouteResult,
+  'sessionId' | 'cache' | 'usage'
+>;
+
+export interface HandoffEvent {
+  from: DepartmentIntent;
+  to: DepartmentIntent;
+  reason: string;
+}
+
+/**
+ * Optional listeners invoked as routing progresses, so callers such as the HTTP
+ * service can stream each step instead of waiting for the full `RouteResult`.
+ */
+export interface RouteEventListener {
+  onClassification?(classification: RouteResult['classification']): void;
+  onTurn?(turn: AgentTurn): void;
+  onHandoff?(handoff: HandoffEvent): void;
+  onUnresolved?(intents: DepartmentIntent[]): void;
+  onSynthesis?(synthesis: SynthesizedAnswer): void;
+  onClarification?(clarification: RouteClarification): void;
+}
+
+export interface RouteOptions {
+  events?: RouteEventListener;
+  /** Conversation to continue; prior exchanges are loaded from the conversation store. */
+  sessionId?: string;
+  executionMode?: ExecutionMode;
+  /** Langfuse trace for rubric scores; defaults to the callback handler's latest trace. */
+  traceId?: string;
+  /** Skip the semantic answer cache for this request, e.g. during evaluations. */
+  bypassCache?: boolean;
+  /** Identity whose roles and region limit retrieval; without one only unrestricted content is used. */
+  caller?: CallerIdentity;
+  /**
+   * Clarification the question answers, for callers without sessions. Sessions pick
+   * up a pending clarification automatically.
+   */
+  clarifies?: RouteClarification;
+  /** Overrides the router's default budget for this request. */
+  budget?: UsageBudget;
+  /**
+   * Routes straight to these departments, skipping classification, the confidence
+   * policy, and the answer cache.
+   */
+  intents?: DepartmentIntent[];
+}
+
+export interface UsageTrackingOptions {
+  prices?: PriceTable;
+  /** Once reached, no further turns or handoffs run; the result reports the truncation. */
+  budget?: UsageBudget;
+}
+
+export interface MultiAgentRouterOptions {
+  conversationStore?: ConversationStore;
+  queryRewriter?: QueryRewriter;
+  /** Detects the question's language and translates it into the corpus language. */
+  translator?: QuestionTranslator;
+  /** `parallel` runs independent classified intents concurrently; defaults to `sequential`. */
+  executionMode?: ExecutionMode;
+  synthesizer?: SynthesizerAgent;
+  /** Evaluates every turn before returning; weak turns are retried or flagged. */
+  qualityGate?: QualityGateOptions;
+  answerCache?: SemanticAnswerCache<CachedRouteResult>;
+  /** Sanitizes questions before any prompt, trace, cache, or session store sees them. */
+  piiGuard?: PiiGuard;
+  /** Receives an event whenever relevant content is withheld from a caller. */
+  accessAudit?: AccessAuditLog;
+  /** Raises a ticket for unknown, unresolved, or unanswered requests. */
+  escalation?: EscalationService;
+  /** Asks a clarifying question or adds a caveat when classification confidence is low. */
+  confidencePolicy?: ConfidencePolicy;
+  /** Records tokens, latency, and cost per step and enforces per-request budgets. */
+  usage?: UsageTrackingOptions;
+  /** Writes every route to a cassette for offline replay; routes then run one at a time. */
+  recorder?: CassetteRecorder;
 }
 
 export class MultiAgentRouter {
   constructor(
     private readonly orchestrator: OrchestratorAgent,
-    private readonly agents: Record<
-      Exclude<DepartmentIntent, 'unknown'>,
-      DomainRagAgent
-    >
+    private readonly agents: Record<DepartmentIntent, DomainRagAgent>,
+    private readonly options: MultiAgentRouterOptions = {}
   ) {}
 
-  async route(question: string, config?: RunnableConfig): Promise<RouteResult> {
-    const classification = await this.orchestrator.classify(question, config);
-    const orderedIntents =
-      OrchestratorAgent.resolveOrderedIntents(classification);
+  /**
+   * Routes a question through classification, department turns, handoffs, and
+   * synthesis. With a PII guard, everything downstream only sees the sanitized
+   * question and restorable values are put back into the returned answers.
+   */
+  async route(
+    question: string,
+    config?: RunnableConfig,
+    options: RouteOptions = {}
+  ): Promise<RouteResult> {
+    const guard = this.options.piiGuard;
+    if (!guard) {
+      return this.recordedRoute(question, config, options);
+    }
+    const sanitized = guard.sanitize(question);
+    const restore = (text: string) => guard.restore(text, sanitized.vault);
+    const { events } = options;
+    const result = await this.recordedRoute(
+      sanitized.text,
+      withTraceMetadata(config, {
+        pii_mode: guard.mode,
+        pii_categories: Object.keys(sanitized.categories),
+      }),
+      {
+        ...options,
+        events: events && {
+          ...events,
+          onTurn:
+            events.onTurn &&
+            ((turn) => events.onTurn!(restoreTurn(turn, restore))),
+          onSynthesis:
+            events.onSynthesis &&
+            ((synthesis) => events.onSynthesis!(restoreSynthesis(synthesis, restore))),
+          onClarification:
+            events.onClarification &&
+            ((clarification) =>
+              events.onClarification!({
+                ...clarification,
+                question: restore(clarification.question),
+              })),
+        },
+      }
+    );
+    return {
+      ...result,
+      turns: result.turns.map((turn) => restoreTurn(turn, restore)),
+      ...(result.synthesis
+        ? { synthesis: restoreSynthesis(result.synthesis, restore) }
+        : {}),
+      ...(result.clarification
+        ? {
+            clarification: {
+              ...result.clarification,
+              question: restore(result.clarification.question),
+            },
+          }
+        : {}),
+      pii: { mode: guard.mode, categories: sanitized.categories },
+    };
+  }
+
+  /**
+   * Records the route to the cassette when recording. It runs inside the PII guard,
+   * so the cassette only holds the sanitized question and unrestored answers.
+   */
+  private recordedRoute(
+    question: string,
+    config: RunnableConfig | undefined,
+    options: RouteOptions
+  ): Promise<RouteResult> {
+    const { recorder } = this.options;
+    if (!recorder) {
+      return this.routeQuestion(question, config, options);
+    }
+    const { sessionId, executionMode, caller, clarifies, budget, intents } =
+      options;
+    return recorder.record(
+      question,
+      { sessionId, executionMode, caller, clarifies, budget, intents },
+      () => this.routeQuestion(question, config, options)
+    );
+  }
+
+  /**
+   * Tracks LLM usage across the whole request and reports the totals on the result
+   * and as a `route-usage` run in the trace.
+   */
+  private async routeQuestion(
+    question: string,
+    config: RunnableConfig | undefined,
+    options: RouteOptions
+  ): Promise<RouteResult> {
+    if (!this.options.usage) {
+      return this.runRoute(question, config, options);
+    }
+    const startedAt = Date.now();
+    const budget = options.budget ?? this.options.usage.budget;
+    const scope: UsageScope = {
+      tracker: new UsageTracker(this.options.usage.prices),
+      ...(budget ? { budget } : {}),
+    };
+    const result = await this.runRoute(
+      question,
+      scope.tracker.attach(config),
+      options,
+      scope
+    );
+    const usage: RouteUsage = {
+      total: scope.tracker.totals(),
+      steps: scope.tracker.steps,
+      durationMs: Date.now() - startedAt,
+      ...(budget ? { budget } : {}),
+      ...(scope.exceeded && budget
+        ? {
+            truncated: {
+              limit: scope.exceeded,
+              budget,
+              skippedIntents: result.unresolvedIntents,
+            },
+          }
+        : {}),
+    };
+    await RunnableLambda.from(async () => usage).invoke(
+      { question: result.standaloneQuestion },
+      {
+        ...withTraceMetadata(config, {
+          usage_total_tokens: usage.total.totalTokens,
+          usage_cost_usd: usage.total.costUsd ?? null,
+          usage_truncated: Boolean(usage.truncated),
+        }),
+        runName: 'route-usage',
+      }
+    );
+    return { ...result, usage };
+  }
+
+  private async runRoute(
+    question: string,
+    config: RunnableConfig | undefined,
+    options: RouteOptions,
+    usage?: UsageScope
+  ): Promise<RouteResult> {
+    const { events, sessionId } = options;
+    const { conversationStore, queryRewriter, translator } = this.options;
+    if (sessionId && !conversationStore) {
+      throw new Error('Session support requires a conversation store.');
+    }
+    const forced = options.intents?.length ? options.intents : undefined;
+    const unknownIntents = (forced ?? []).filter(
+      (intent) => !this.isRunnable(intent)
+    );
+    if (unknownIntents.length) {
+      throw new Error(
+        `Unknown departments ${unknownIntents.join(', ')}. Expected one of: ${Object.keys(this.agents).join(', ')}.`
+      );
+    }
+    const exchanges =
+      sessionId && conversationStore
+        ? await conversationStore.load(sessionId, options.caller?.userId)
+        : [];
+    const conversation = summarizeConversation(exchanges);
+    const errors: RouteError[] = [];
+    const pending = this.pendingClarification(question, exchanges, options);
+    let standaloneQuestion = question;
+    if (pending) {
+      // The reply only makes sense together with the question it clarifies.
+      standaloneQuestion = `${pending.originalQuestion}\nClarification: ${question}`;
+    } else if (exchanges.length && queryRewriter) {
+      try {
+        standaloneQuestion = await queryRewriter.rewrite(
+          question,
+          conversation,
+          withTraceMetadata(config, usageStepMetadata('rewrite'))
+        );
+      } catch (error) {
+        errors.push(toRouteError('rewrite', error));
+      }
+    }
+    let language: DetectedLanguage | undefined;
+    if (translator) {
+      try {
+        const translated = await translator.translate(
+          question,
+          standaloneQuestion,
+          withTraceMetadata(config, usageStepMetadata('translation'))
+        );
+        language = translated.language;
+        standaloneQuestion = translated.question;
+        config = withTraceMetadata(config, {
+          question_language: language.code,
+        });
+      } catch (error) {
+        errors.push(toRouteError('translation', error));
+      }
+    }
+    // Set only when answers must be written in another language than the corpus.
+    const answerLanguage =
+      language && language.code !== translator!.corpusLanguage.code
+        ? language
+        : undefined;
+    // Cached answers may come from other departments than the forced ones.
+    const cache =
+      options.bypassCache || forced ? undefined : this.options.answerCache;
+    let cacheLookup: CacheLookup<CachedRouteResult> | undefined;
+    if (cache) {
+      try {
+        // Cached answers are written in the language of the question that produced them.
+        const corpusLanguage = translator?.corpusLanguage.code;
+        cacheLookup = await trackEmbeddings(config, 'cache', () =>
+          cache.lookup(
+            standaloneQuestion,
+            (value) =>
+              (value.language?.code ?? corpusLanguage) ===
+              (language?.code ?? corpusLanguage)
+          )
+        );
+      } catch (error) {
+        errors.push(toRouteError('cache', error));
+      }
+      if (cacheLookup?.hit) {
+        return this.serveCachedResult(
+          question,
+          standaloneQuestion,
+          cacheLookup.hit,
+          config,
+          options
+        );
+      }
+    }
+    const routeConfig = cache
+      ? withTraceMetadata(config, { semantic_cache: 'miss' })
+      : config;
+    let classification: RouteResult['classification'];
+    let classified = false;
+    if (forced) {
+      classification = {
+        intents: forced,
+        confidence: 1,
+        reasoning: 'Departments chosen by the caller; classification skipped.',
+      };
+    } else {
+      try {
+        classification = await this.orchestrator.classify(
+          standaloneQuestion,
+          withTraceMetadata(routeConfig, usageStepMetadata('classification')),
+          conversation,
+          pending?.answer,
+          answerLanguage?.name
+        );
+        classified = true;
+      } catch (error) {
+        const routeError = toRouteError('classification', error);
+        errors.push(routeError);
+        classification = {
+          intents: [UNKNOWN_INTENT],
+          confidence: 0,
+          reasoning: `Classification failed: ${routeError.message}`,
+        };
+      }
+    }
+    events?.onClassification?.(classification);
+    let orderedIntents =
+      this.orchestrator.resolveOrderedIntents(classification);
+    let caveat: string | undefined;
+    const policy = this.options.confidencePolicy;
+    if (policy && classified) {
+      const decision = decideConfidenceAction(
+        classification,
+        orderedIntents,
+        policy,
+        {
+          allowClarification: !pending,
+          isKnown: (intent) => this.isRunnable(intent),
+        }
+      );
+      if (decision.action === 'clarify') {
+        const clarification: RouteClarification = {
+          question:
+            classification.clarifyingQuestion ??
+            (await this.localize(
+              `Is your question about ${decision.candidates.map(({ intent }) => this.agentLabel(intent)).join(' or ')}? A little more detail will help me route it.`,
+              answerLanguage,
+              config,
+              errors
+            )),
+          candidates: decision.candidates.map(({ intent, confidence }) => ({
+            intent,
+            agent: this.agentLabel(intent),
+            confidence,
+          })),
+          originalQuestion: standaloneQuestion,
+        };
+        events?.onClarification?.(clarification);
+        if (sessionId) {
+          await this.recordExchange(
+            sessionId,
+            options.caller?.userId,
+            question,
+            standaloneQuestion,
+            [],
+            [],
+            clarification
+          );
+        }
+        return {
+          classification,
+          turns: [],
+          unresolvedIntents: [],
+          standaloneQuestion,
+          ...(sessionId ? { sessionId } : {}),
+          errors,
+          ...(cache ? { cache: { status: 'miss' as const } } : {}),
+          clarification,
+          ...(language ? { language } : {}),
+        };
+      }
+      if (decision.action === 'caveat') {
+        orderedIntents = decision.intents;
+        caveat = await this.localize(
+          `I'm not fully sure which team owns this question (confidence ${Math.round(classification.confidence * 100)}%), so this answer draws on ${decision.intents.map((intent) => this.agentLabel(intent)).join(' and ')}. Reply with more detail if it misses the mark.`,
+          answerLanguage,
+          config,
+          errors
+        );
+      }
+    }
     const queue: IntentQueueItem[] = orderedIntents.map((intent) => ({
       intent,
     }));
     const visited = new Set<DepartmentIntent>();
     const turns: AgentTurn[] = [];
+    const turnContext: TurnContext = {
+      question: standaloneQuestion,
+      conversation,
+      config: routeConfig,
+      events,
+      traceId: options.traceId,
+      errors,
+      caller: options.caller,
+      sessionId,
+      usage,
+      language: answerLanguage,
+    };
+    const executionMode =
+      options.executionMode ?? this.options.executionMode ?? 'sequential';
 
-    while (queue.length && turns.length < 5) {
-      const { intent, note } = queue.shift()!;
-      if (intent === 'unknown' || visited.has(intent)) {
-        continue;
+    const spent = usage?.tracker.exceeded(usage.budget);
+    if (spent) {
+      // Classification alone used up the budget: no turn starts, and the queued
+      // intents are reported as unresolved.
+      usage!.exceeded = spent;
+    } else if (executionMode === 'parallel') {
+      // Classified intents do not depend on each other, so they run concurrently.
+      // Handoffs they request still run in the sequential loop below.
+      const independent: IntentQueueItem[] = [];
+      for (const item of queue.splice(0)) {
+        if (
+          independent.length < MAX_TURNS &&
+          this.isRunnable(item.intent) &&
+          !visited.has(item.intent)
+        ) {
+          independent.push(item);
+          visited.add(item.intent);
+        }
+      }
+      const parallelTurns = await Promise.all(
+        independent.map((item) => this.runTurn(item, [], turnContext))
+      );
+      for (const turn of parallelTurns) {
+        turns.push(turn);
+        this.queueHandoff(turn, queue, visited, events);
       }
-      const agent = this.agents[intent as Exclude<DepartmentIntent, 'unknown'>];
-      if (!agent) {
+    }
+
+    while (queue.length && turns.length < MAX_TURNS) {
+      const item = queue.shift()!;
+      if (!this.isRunnable(item.intent) || visited.has(item.intent)) {
         continue;
       }
-      const history = turns
-        .map((turn) => {
-          const label =
-            turn.intentTried === 'unknown'
-              ? 'Unknown intent'
-              : this.agents[turn.intentTried]?.name ?? turn.intentTried;
-          return `${label}:\n${turn.response.text}`;
-        })
-        .join('\n\n');
-      const taskDirective = note
-        ? `${question}\n\nFollow-up directive: ${note}`
-        : question;
-      const response = await agent.invoke(
-        taskDirective,
-        history || 'No prior agent responses.',
-        config
-      );
-      turns.push({ intentTried: intent, response });
-      visited.add(intent);
-      if (response.handoff && !visited.has(response.handoff.intent)) {
-        queue.push({
-          intent: response.handoff.intent,
-          note: response.handoff.context ?? response.handoff.reason,
-        });
+      const exceeded = usage?.tracker.exceeded(usage.budget);
+      if (exceeded) {
+        // Leave the item queued so it is reported as unresolved.
+        queue.unshift(item);
+        usage!.exceeded = exceeded;
+        break;
       }
+      const turn = await this.runTurn(item, turns, turnContext);
+      turns.push(turn);
+      visited.add(item.intent);
+      this.queueHandoff(turn, queue, visited, events);
     }
 
     const unresolvedIntents = queue
       .map((item) => item.intent)
       .filter((intent) => !visited.has(intent));
+    if (unresolvedIntents.length) {
+      events?.onUnresolved?.(unresolvedIntents);
+    }
 
-    return {
+    if (sessionId) {
+      await this.recordExchange(
+        sessionId,
+        options.caller?.userId,
+        question,
+        standaloneQuestion,
+        orderedIntents,
+        turns
+      );
+    }
+
+    let synthesis: SynthesizedAnswer | undefined;
+    const answeredTurns = turns.filter((turn) => !turn.error);
+    if (this.options.synthesizer && answeredTurns.length > 1) {
+      try {
+        synthesis = await this.options.synthesizer.synthesize(
+          standaloneQuestion,
+          answeredTurns.map((turn) => ({
+            intent: turn.intentTried,
+            agent: this.agentLabel(turn.intentTried),
+            text: turn.response.text,
+            sources: turn.response.sources,
+          })),
+          withTraceMetadata(routeConfig, usageStepMetadata('synthesis')),
+          answerLanguage?.name
+        );
+        events?.onSynthesis?.(synthesis);
+      } catch (error) {
+        errors.push(toRouteError('synthesis', error));
+      }
+    }
+
+    let escalation: EscalationOutcome | undefined;
+    if (this.options.escalation) {
+      try {
+        escalation = await this.options.escalation.escalate({
+          question: standaloneQuestion,
+          ...(options.caller ? { userId: options.caller.userId } : {}),
+          ...(sessionId ? { sessionId } : {}),
+          classification,
+          turns,
+          unresolvedIntents,
+        });
+      } catch (error) {
+        errors.push(toRouteError('escalation', error));
+      }
+    }
+
+    const result: RouteResult = {
       classification,
       turns,
       unresolvedIntents,
+      standaloneQuestion,
+      ...(synthesis ? { synthesis } : {}),
+      ...(escalation ? { escalation } : {}),
+      ...(caveat ? { caveat } : {}),
+      ...(sessionId ? { sessionId } : {}),
+      ...(this.options.qualityGate
+        ? {
+            lowQualityIntents: turns
+              .filter((turn) => turn.quality?.lowQuality)
+              .map((turn) => turn.intentTried),
+          }
+        : {}),
+      errors,
+      ...(cache ? { cache: { status: 'miss' as const } } : {}),
+      ...(language ? { language } : {}),
+    };
+    if (cache && cacheLookup && isCacheable(result)) {
+      const { sessionId: _session, cache: _cache, ...value } = result;
+      await cache.save(
+        standaloneQuestion,
+        cacheLookup.embedding,
+        [...new Set(turns.map((turn) => turn.intentTried))],
+        // A hit costs nothing, so the original turns' usage is not replayed.
+        { ...value, turns: turns.map(({ usage: _usage, ...turn }) => turn) }
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Replays a cached result: listeners receive the cached steps, the session records
+   * the exchange, and a lightweight run tags the trace as a cache hit.
+   */
+  private async serveCachedResult(
+    question: string,
+    standaloneQuestion: string,
+    hit: NonNullable<CacheLookup<CachedRouteResult>['hit']>,
+    config: RunnableConfig | undefined,
+    { events, sessionId, caller }: RouteOptions
+  ): Promise<RouteResult> {
+    const cached = hit.entry.value;
+    const cacheInfo: RouteCacheInfo = {
+      status: 'hit',
+      similarity: hit.similarity,
+      cachedAt: hit.entry.createdAt,
+      matchedQuestion: hit.entry.question,
+    };
+    await RunnableLambda.from(async () => cacheInfo).invoke(
+      { question: standaloneQuestion },
+      {
+        ...withTraceMetadata(config, {
+          semantic_cache: 'hit',
+          cache_similarity: hit.similarity,
+        }),
+        runName: 'semantic-cache',
+      }
+    );
+    events?.onClassification?.(cached.classification);
+    for (const turn of cached.turns) {
+      events?.onTurn?.(turn);
+    }
+    if (cached.synthesis) {
+      events?.onSynthesis?.(cached.synthesis);
+    }
+    if (sessionId) {
+      await this.recordExchange(
+        sessionId,
+        caller?.userId,
+        question,
+        standaloneQuestion,
+        cached.classification.intents,
+        cached.turns
+      );
+    }
+    return {
+      ...cached,
+      standaloneQuestion,
+      ...(sessionId ? { sessionId } : {}),
+      errors: [],
+      cache: cacheInfo,
+    };
+  }
+
+  private async recordExchange(
+    sessionId: string,
+    owner: string | undefined,
+    question: string,
+    standaloneQuestion: string,
+    intents: DepartmentIntent[],
+    turns: AgentTurn[],
+    clarification?: RouteClarification
+  ): Promise<void> {
+    const exchange: ConversationExchange = {
+      question,
+      standaloneQuestion,
+      intents,
+      answers: turns
+        .filter((turn) => !turn.error)
+        .map((turn) => ({
+          intent: turn.intentTried,
+          agent: this.agentLabel(turn.intentTried),
+          text: turn.response.text,
+        })),
+      ...(clarification
+        ? {
+            clarification: {
+              question: clarification.question,
+              candidates: clarification.candidates.map(({ intent }) => intent),
+            },
+          }
+        : {}),
+      timestamp: new Date().toISOString(),
+    };
+    await this.options.conversationStore!.append(sessionId, exchange, owner);
+  }
+
+  /** The clarification this question answers, from the options or the session's last exchange. */
+  private pendingClarification(
+    reply: string,
+    exchanges: ConversationExchange[],
+    { clarifies }: RouteOptions
+  ): { originalQuestion: string; answer: ClarificationAnswer } | undefined {
+    if (clarifies) {
+      return {
+        originalQuestion: clarifies.originalQuestion,
+        answer: {
+          question: clarifies.question,
+          candidates: clarifies.candidates.map(({ intent }) => intent),
+          answer: reply,
+        },
+      };
+    }
+    const last = exchanges[exchanges.length - 1];
+    if (!last?.clarification) {
+      return undefined;
+    }
+    return {
+      originalQuestion: last.standaloneQuestion,
+      answer: { ...last.clarification, answer: reply },
+    };
+  }
+
+  private isRunnable(intent: DepartmentIntent): boolean {
+    return intent !== UNKNOWN_INTENT && Boolean(this.agents[intent]);
+  }
+
+  private async runTurn(
+    { intent, note }: IntentQueueItem,
+    priorTurns: AgentTurn[],
+    context: TurnContext
+  ): Promise<AgentTurn> {
+    const { question, conversation, events } = context;
+    const config = withTraceMetadata(
+      context.config,
+      usageStepMetadata('turn', intent)
+    );
+    const agent = this.agents[intent];
+    const history = priorTurns
+      .map(
+        (turn) =>
+          `${this.agentLabel(turn.intentTried)}:\n${turn.response.text}`
+      )
+      .join('\n\n');
+    const taskDirective = note
+      ? `${question}\n\nFollow-up directive: ${note}`
+      : question;
+    const invoke = (reviewFeedback?: string) =>
+      agent.invoke(
+        taskDirective,
+        history || 'No prior agent responses.',
+        config,
+        conversation,
+        {
+          reviewFeedback,
+          caller: context.caller,
+          answerLanguage: context.language?.name,
+        }
+      );
+    let turn: AgentTurn;
+    try {
+      const response = await invoke();
+      turn = await this.applyQualityGate(
+        { intentTried: intent, response },
+        invoke,
+        context
+      );
+      if (turn.response.notCovered || turn.response.restricted?.refused) {
+        // Fixed responses skip the LLM, so they are still in the corpus language.
+        turn = {
+          ...turn,
+          response: {
+            ...turn.response,
+            text: await this.localize(
+              turn.response.text,
+              context.language,
+              config,
+              context.errors,
+              intent
+            ),
+          },
+        };
+      }
+    } catch (error) {
+      turn = this.failedTurn(intent, error);
+      context.errors.push(turn.error!);
+    }
+    if (context.usage) {
+      turn = {
+        ...turn,
+        usage: context.usage.tracker.totals((step) => step.intent === intent),
+      };
+    }
+    await this.auditRestricted(turn, context);
+    events?.onTurn?.(turn);
+    return turn;
+  }
+
+  /** Translates a fixed response into the employee's language; keeps the original if that fails. */
+  private async localize(
+    text: string,
+    language: DetectedLanguage | undefined,
+    config: RunnableConfig | undefined,
+    errors: RouteError[],
+    intent?: DepartmentIntent
+  ): Promise<string> {
+    const { translator } = this.options;
+    if (!translator || !language) {
+      return text;
+    }
+    try {
+      return await translator.localize(
+        text,
+        language,
+        withTraceMetadata(config, usageStepMetadata('translation', intent))
+      );
+    } catch (error) {
+      errors.push(toRouteError('translation', error, intent));
+      return text;
+    }
+  }
+
+  private async auditRestricted(
+    { intentTried, response }: AgentTurn,
+    { question, caller, sessionId, errors }: TurnContext
+  ): Promise<void> {
+    const audit = this.options.accessAudit;
+    if (!audit || !response.restricted) {
+      return;
+    }
+    try {
+      await audit.record({
+        timestamp: new Date().toISOString(),
+        ...(caller ? { userId: caller.userId } : {}),
+        roles: caller?.roles ?? [],
+        ...(caller?.region ? { region: caller.region } : {}),
+        ...(sessionId ? { sessionId } : {}),
+        intent: intentTried,
+        question,
+        outcome: response.restricted.refused ? 'refused' : 'partial',
+        restricted: response.restricted.chunks,
+      });
+    } catch (error) {
+      errors.push(toRouteError('audit', error, intentTried));
+    }
+  }
+
+  private failedTurn(intent: DepartmentIntent, error: unknown): AgentTurn {
+    const routeError = toRouteError('turn', error, intent);
+    return {
+      intentTried: intent,
+      response: {
+        text: `The ${this.agentLabel(intent)} could not answer this part of the request (${routeError.kind}). Please try again later.`,
+        sources: [],
+        citationStatus: 'missing',
+        unverifiedCitations: [],
+        retrieved: [],
+      },
+      error: routeError,
     };
   }
+
+  /**
+   * Scores a turn with the rubric evaluator. Deterministic "not covered" answers and
+   * access refusals are skipped because no LLM output exists to grade.
+   */
+  private async applyQualityGate(
+    turn: AgentTurn,
+    invoke: (reviewFeedback?: string) => Promise<DomainAgentResult>,
+    { question, config, traceId, errors }: TurnContext
+  ): Promise<AgentTurn> {
+    const gate = this.options.qualityGate;
+    if (
+      !gate ||
+      turn.response.notCovered ||
+      turn.response.restricted?.refused
+    ) {
+      return turn;
+    }
+    let evaluation: RubricEvaluation;
+    const evaluate = (response: DomainAgentResult) =>
+      gate.evaluator.evaluate(
+        {
+          question,
+          answer: response.text,
+          citations: response.sources,
+          context: [
+            ...response.retrieved,
+            ...(response.toolCalls ?? []).map((call) => ({
+              label: `tool:${call.tool}`,
+              content: JSON.stringify(call.error ?? call.output),
+            })),
+          ],
+        },
+        {
+          config: withTraceMetadata(
+            config,
+            usageStepMetadata('evaluation', turn.intentTried)
+          ),
+          traceId: traceId ?? traceIdFromConfig(config),
+        }
+      );
+    try {
+      evaluation = await evaluate(turn.response);
+    } catch (error) {
+      errors.push(toRouteError('evaluation', error, turn.intentTried));
+      return turn;
+    }
+    if (evaluation.overall >= gate.minScore || gate.mode === 'flag') {
+      return {
+        ...turn,
+        quality: {
+          evaluation,
+          lowQuality: evaluation.overall < gate.minScore,
+          retried: false,
+        },
+      };
+    }
+    let retryResponse: DomainAgentResult;
+    try {
+      retryResponse = await invoke(
+        describeShortfalls(evaluation, gate.minScore)
+      );
+    } catch (error) {
+      errors.push(toRouteError('turn', error, turn.intentTried));
+      return {
+        ...turn,
+        quality: { evaluation, lowQuality: true, retried: false },
+      };
+    }
+    let retryEvaluation: RubricEvaluation;
+    try {
+      retryEvaluation = await evaluate(retryResponse);
+    } catch (error) {
+      errors.push(toRouteError('evaluation', error, turn.intentTried));
+      return {
+        intentTried: turn.intentTried,
+        response: retryResponse,
+        quality: {
+          lowQuality: true,
+          retried: true,
+          initialEvaluation: evaluation,
+        },
+      };
+    }
+    return {
+      intentTried: turn.intentTried,
+      response: retryResponse,
+      quality: {
+        evaluation: retryEvaluation,
+        lowQuality: retryEvaluation.overall < gate.minScore,
+        retried: true,
+        initialEvaluation: evaluation,
+      },
+    };
+  }
+
+  private queueHandoff(
+    turn: AgentTurn,
+    queue: IntentQueueItem[],
+    visited: Set<DepartmentIntent>,
+    events?: RouteEventListener
+  ): void {
+    const { handoff } = turn.response;
+    if (!handoff || visited.has(handoff.intent)) {
+      return;
+    }
+    queue.push({
+      intent: handoff.intent,
+      note: handoff.context ?? handoff.reason,
+    });
+    events?.onHandoff?.({
+      from: turn.intentTried,
+      to: handoff.intent,
+      reason: handoff.reason,
+    });
+  }
+
+  private agentLabel(intent: DepartmentIntent): string {
+    return intent === UNKNOWN_INTENT
+      ? 'Unknown intent'
+      : this.agents[intent]?.name ?? intent;
+  }
 }
 
 /**
@@ -254,6 +1652,7 @@ export class MultiAgentRouter {
  */
 async function runExamples(
   router: MultiAgentRouter,
+  json: boolean,
   handler?: LangfuseCallbackHandler
 ) {
   const sampleQueries = [
@@ -267,6 +1666,10 @@ async function runExamples(
       ? { callbacks: [handler], metadata: { query_type: 'sample' } }
       : undefined;
     const result = await router.route(query, traceConfig);
+    if (json) {
+      process.stdout.write(`${JSON.stringify(result)}\n`);
+      continue;
+    }
     console.log('\n---');
     console.log('Query:', query);
     console.log('Ordered intents:', result.classification.intents.join(' → '));
@@ -280,24 +1683,76 @@ async function runExamples(
       console.log(`\n[${turn.intentTried.toUpperCase()} AGENT]`);
       console.log(turn.response.text);
       console.log('Sources:', turn.response.sources.join(', '));
+      console.log('Citation status:', turn.response.citationStatus);
+      if (turn.response.unverifiedCitations.length) {
+        console.log(
+          'Unverified citations:',
+          turn.response.unverifiedCitations.join(', ')
+        );
+      }
+      if (turn.quality) {
+        console.log(
+          `Quality ${turn.quality.evaluation?.overall.toFixed(1) ?? 'n/a'}/10${turn.quality.retried ? ' (retried)' : ''}${turn.quality.lowQuality ? ' – LOW QUALITY' : ''}`
+        );
+      }
+      for (const call of turn.response.toolCalls ?? []) {
+        console.log(
+          `Tool ${call.tool}(${JSON.stringify(call.input)}) → ${call.error ? `error: ${call.error}` : JSON.stringify(call.output)}`
+        );
+      }
+      if (turn.response.notCovered) {
+        console.log(
+          `Not covered by policy (best relevance ${turn.response.notCovered.bestScore?.toFixed(2) ?? 'n/a'})`
+        );
+      }
       if (turn.response.handoff) {
         console.log(
           `Handoff requested → ${turn.response.handoff.intent} (${turn.response.handoff.reason})`
         );
       }
     }
+    if (result.synthesis) {
+      console.log('\n[UNIFIED ANSWER]');
+      console.log(result.synthesis.text);
+    }
+    if (result.caveat) {
+      console.log('Note:', result.caveat);
+    }
+    if (result.clarification) {
+      console.log('Clarification needed:', result.clarification.question);
+    }
     if (result.unresolvedIntents.length) {
       console.log('Unresolved intents:', result.unresolvedIntents.join(', '));
     }
+    if (result.escalation) {
+      console.log(
+        `Escalated to ${result.escalation.suggestedTeam.name} (ticket ${result.escalation.ticketId}). A human will follow up.`
+      );
+    }
+    if (result.usage) {
+      console.log('Usage:', describeUsage(result.usage.total));
+    }
   }
 }
 
 /**
  * ## 6. Langfuse Integration
  */
-async function configureLangfuse() {
-  if (!process.env.LANGFUSE_SECRET_KEY || !process.env.LANGFUSE_PUBLIC_KEY) {
+export async function configureLangfuse() {
+  const handler = createLangfuseHandler();
+  if (!handler) {
     console.warn('Langfuse keys missing. Tracing disabled.');
+  }
+  return handler;
+}
+
+/**
+ * A fresh Langfuse handler, or undefined when keys are missing. A handler only
+ * remembers its latest trace, so concurrent requests each need their own for rubric
+ * scores to land on the right trace.
+ */
+export function createLangfuseHandler(): LangfuseCallbackHandler | undefined {
+  if (!process.env.LANGFUSE_SECRET_KEY || !process.env.LANGFUSE_PUBLIC_KEY) {
     return undefined;
   }
   return new LangfuseCallbackHandler({
@@ -309,18 +1764,70 @@ async function configureLangfuse() {
   });
 }
 
-async function bootstrap() {
-  const langfuseHandler = await configureLangfuse();
-  const llm = new ChatOpenAI({
-    temperature: 0,
-    model: OPENROUTER_MODEL,
-    apiKey: OPENROUTER_API_KEY,
-    configuration: {
-      baseURL: OPENROUTER_BASE_URL,
-    },
+/** Langfuse API client for scores and datasets; undefined when keys are missing. */
+export function createLangfuseClient(): Langfuse | undefined {
+  if (!process.env.LANGFUSE_SECRET_KEY || !process.env.LANGFUSE_PUBLIC_KEY) {
+    return undefined;
+  }
+  return new Langfuse({
+    publicKey: process.env.LANGFUSE_PUBLIC_KEY,
+    secretKey: process.env.LANGFUSE_SECRET_KEY,
+    baseUrl: process.env.LANGFUSE_BASE_URL ?? 'https://cloud.langfuse.com',
   });
+}
+
+export function createRubricEvaluator(
+  langfuse = createLangfuseClient(),
+  llm: ChatModelLike = createResilientChatModel(EVALUATOR_MODEL)
+): RubricEvaluator {
+  return new RubricEvaluator(llm, langfuse);
+}
+
+export interface RouterFactoryOptions {
+  /** Pre-loaded department registry; read from `DEPARTMENTS_CONFIG` when omitted. */
+  registry?: DepartmentRegistry;
+  /** Called once each department's vector store is opened and synced. */
+  onStoreReady?(department: DepartmentIntent): void;
+  /** Receives indexing and document-watch messages; defaults to `console.log`. */
+  log?(message: string): void;
+  /**
+   * Re-indexes a file whenever one under a department's data folder is added, edited,
+   * or removed. Off unless passed; long-running callers (the REPL and the HTTP
+   * service) pass it when `WATCH_DOCUMENTS=true`.
+   */
+  watchDocuments?: DocumentWatchOptions;
+  /**
+   * Records every LLM call, retrieval, and route result to a cassette for
+   * `createReplayRouter`. The answer cache is off while recording.
+   */
+  recorder?: CassetteRecorder;
+  /**
+   * Files escalation tickets through this adapter instead of the one picked by
+   * `ESCALATION_ADAPTER`, e.g. an `InMemoryTicketAdapter` for evaluation runs that
+   * must not open real tickets. Recording defaults to an in-memory adapter.
+   * `ESCALATION_ADAPTER=off` still disables escalation.
+   */
+  ticketAdapter?: TicketAdapter;
+}
+
+export interface DocumentWatchOptions {
+  /** Stops watching when aborted; the watcher keeps the process alive until then. */
+  signal: AbortSignal;
+  /** Called after each re-index; defaults to logging the sync counts. */
+  onReindex?(report: ReindexReport): void;
+}
+
+export async function createMultiAgentRouter(
+  options: RouterFactoryOptions = {}
+): Promise<MultiAgentRouter> {
+  const registry = options.registry ?? (await loadDepartments());
+  const { recorder } = options;
+  const llm = recorder
+    ? new RecordingChatModel(createResilientChatModel(), recorder)
+    : createResilientChatModel();
 
-  const embeddings = new OpenAIEmbeddings({
+  const prices = await loadPriceTable(USAGE_PRICES);
+  const embeddings = new MeteredOpenAIEmbeddings({
     apiKey: OPENROUTER_API_KEY,
     model: EMBEDDING_MODEL,
     ...(EMBEDDING_DIM ? { dimensions: EMBEDDING_DIM } : {}),
@@ -329,35 +1836,509 @@ async function bootstrap() {
     },
   });
 
-  const pineconeIndex = await resolvePineconeIndex();
-  const stores = {
-    hr: await buildVectorStore('hr_docs', embeddings, pineconeIndex),
-    tech: await buildVectorStore('tech_docs', embeddings, pineconeIndex),
-    finance: await buildVectorStore('finance_docs', embeddings, pineconeIndex),
+  const log = options.log ?? console.log;
+  const vectorStoreProvider = resolveVectorStoreProvider(embeddings);
+  const stores: Record<DepartmentIntent, DepartmentIndex> = {};
+  for (const department of registry.departments) {
+    stores[department.intent] = await buildVectorStore(
+      department,
+      vectorStoreProvider,
+      prices,
+      log
+    );
+    options.onStoreReady?.(department.intent);
+  }
+
+  // Cache hits make no calls, which would leave nothing to replay.
+  const answerCache = recorder ? undefined : resolveAnswerCache(embeddings);
+  for (const department of registry.departments) {
+    await answerCache?.setKnowledgeBaseVersion(
+      department.intent,
+      stores[department.intent].version
+    );
+  }
+
+  if (options.watchDocuments) {
+    watchDepartmentDocuments(
+      registry,
+      stores,
+      prices,
+      options.watchDocuments,
+      log,
+      answerCache
+    );
+  }
+
+  const retrievers: Record<DepartmentIntent, RetrieverLike> = {};
+  for (const department of registry.departments) {
+    const retriever = createRetriever(
+      stores[department.intent],
+      department.retriever
+    );
+    retrievers[department.intent] = recorder
+      ? new RecordingRetriever(retriever, department.intent, recorder)
+      : retriever;
+  }
+  const restrictedContent = (intent: DepartmentIntent) =>
+    stores[intent].chunks.some((chunk) => isRestricted(chunk.metadata));
+  const settings = resolveRouterSettings(prices);
+  await recorder?.setup(registry.intents.filter(restrictedContent), settings);
+  const agents = await buildAgents(
+    llm,
+    registry,
+    retrievers,
+    restrictedContent,
+    settings.citations
+  );
+  const orchestrator = new OrchestratorAgent(llm, registry);
+  return new MultiAgentRouter(orchestrator, agents, {
+    ...routerBehavior(settings, llm, registry, {
+      createEvaluator: () =>
+        createRubricEvaluator(
+          undefined,
+          recorder
+            ? new RecordingChatModel(
+                createResilientChatModel(EVALUATOR_MODEL),
+                recorder
+              )
+            : undefined
+        ),
+      ticketAdapter:
+        options.ticketAdapter ??
+        (recorder ? new InMemoryTicketAdapter() : undefined),
+    }),
+    conversationStore: resolveConversationStore(),
+    answerCache,
+    piiGuard: await resolvePiiGuard(),
+    accessAudit: new FileAccessAuditLog(ACCESS_AUDIT_LOG),
+    recorder,
+  });
+}
+
+/**
+ * Builds a router that answers entirely from a cassette: every LLM call and retrieval
+ * is served by replay stand-ins, so no provider, vector store, or embeddings are
+ * needed. The rest of the pipeline (routing, handoffs, parsing, guardrails) runs for
+ * real with the router settings recorded in the cassette's setup line, so the current
+ * env does not matter; `departments.json` must still match the recording's. Side
+ * effects are kept in memory: sessions, escalation tickets, and no access audit.
+ * Cassettes are recorded behind the PII guard, so replay runs without one.
+ */
+export async function createReplayRouter(
+  cassette: Cassette,
+  options: { registry?: DepartmentRegistry } = {}
+): Promise<MultiAgentRouter> {
+  const registry = options.registry ?? (await loadDepartments());
+  const llm = new ReplayChatModel(cassette);
+  const retrievers: Record<DepartmentIntent, RetrieverLike> = {};
+  for (const department of registry.departments) {
+    retrievers[department.intent] = new ReplayRetriever(
+      cassette,
+      department.intent
+    );
+  }
+  const { settings } = cassette.setup;
+  const agents = await buildAgents(
+    llm,
+    registry,
+    retrievers,
+    (intent) => cassette.setup.restrictedDepartments.includes(intent),
+    settings.citations
+  );
+  return new MultiAgentRouter(new OrchestratorAgent(llm, registry), agents, {
+    ...routerBehavior(settings, llm, registry, {
+      createEvaluator: () => new RubricEvaluator(llm),
+      ticketAdapter: new InMemoryTicketAdapter(),
+    }),
+    conversationStore: new InMemoryConversationStore(),
+  });
+}
+
+/**
+ * Reads the env settings that decide which calls a route makes. Recording stores
+ * them in the cassette so replay rebuilds the same router.
+ */
+function resolveRouterSettings(prices: PriceTable): RecordedRouterSettings {
+  return {
+    executionMode: ROUTER_EXECUTION_MODE,
+    synthesize: SYNTHESIZE_ANSWERS,
+    citations: {
+      mode: CITATION_MODE,
+      requireGrounding: REQUIRE_GROUNDED_ANSWERS,
+    },
+    qualityGate: resolveQualityGate(),
+    translateTo: resolveCorpusLanguage(),
+    confidencePolicy: resolveConfidencePolicy(),
+    escalationTeam:
+      ESCALATION_ADAPTER === 'off' ? undefined : ESCALATION_DEFAULT_TEAM,
+    budget: resolveUsageBudget(),
+    prices,
   };
+}
+
+/** The router options that live and replayed routers both derive from their settings. */
+function routerBehavior(
+  settings: RecordedRouterSettings,
+  llm: ChatModelLike,
+  registry: DepartmentRegistry,
+  {
+    createEvaluator,
+    ticketAdapter,
+  }: { createEvaluator(): RubricEvaluator; ticketAdapter?: TicketAdapter }
+): MultiAgentRouterOptions {
+  return {
+    queryRewriter: new QueryRewriter(llm),
+    ...(settings.translateTo
+      ? {
+          translator: new QuestionTranslator(
+            llm,
+            describeLanguage(settings.translateTo)
+          ),
+        }
+      : {}),
+    executionMode: settings.executionMode,
+    ...(settings.synthesize
+      ? { synthesizer: new SynthesizerAgent(llm, registry) }
+      : {}),
+    ...(settings.qualityGate
+      ? {
+          qualityGate: { evaluator: createEvaluator(), ...settings.qualityGate },
+        }
+      : {}),
+    ...(settings.escalationTeam !== undefined
+      ? {
+          escalation: resolveEscalation(
+            registry,
+            settings.escalationTeam,
+            ticketAdapter
+          ),
+        }
+      : {}),
+    confidencePolicy: settings.confidencePolicy,
+    usage: { prices: settings.prices, budget: settings.budget },
+  };
+}
+
+/**
+ * Watches `data/` and re-indexes single files in place. Sidecar metadata edits
+ * re-index the document they describe, and the answer cache moves to the new
+ * knowledge-base version so answers built on the old content are retired.
+ */
+function watchDepartmentDocuments(
+  registry: DepartmentRegistry,
+  stores: Record<DepartmentIntent, DepartmentIndex>,
+  prices: PriceTable,
+  { signal, onReindex }: DocumentWatchOptions,
+  log: (message: string) => void,
+  answerCache?: SemanticAnswerCache<CachedRouteResult>
+): void {
+  watchDocuments(
+    dataDir,
+    async (filePath) => {
+      const target = isSidecarFile(filePath)
+        ? filePath.slice(0, -SIDECAR_SUFFIX.length)
+        : filePath;
+      const department = registry.departments.find((candidate) => {
+        const relative = path.relative(
+          path.join(dataDir, candidate.dataFolder),
+          target
+        );
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+      });
+      if (!department || !isSupportedDocument(target)) {
+        return;
+      }
+      const report = await reindexDocument(
+        department,
+        stores[department.intent],
+        target,
+        prices
+      );
+      await answerCache?.setKnowledgeBaseVersion(
+        department.intent,
+        report.version
+      );
+      if (onReindex) {
+        onReindex(report);
+        return;
+      }
+      log(
+        `Re-indexed ${report.source} (${report.change}) → ${report.namespace}: ${report.added} added, ${report.updated} updated, ${report.deleted} deleted${describeIndexingUsage(report.usage)}.`
+      );
+    },
+    { signal }
+  );
+  log(`Watching ${path.relative(rootDir, dataDir)}/ for document changes.`);
+}
+
+function resolveUsageBudget(): UsageBudget | undefined {
+  if (Number.isNaN(ROUTE_MAX_COST_USD) || ROUTE_MAX_COST_USD < 0) {
+    throw new Error('ROUTE_MAX_COST_USD must be a non-negative number.');
+  }
+  if (!ROUTE_MAX_TOKENS && !ROUTE_MAX_COST_USD) {
+    return undefined;
+  }
+  return {
+    ...(ROUTE_MAX_TOKENS ? { maxTokens: ROUTE_MAX_TOKENS } : {}),
+    ...(ROUTE_MAX_COST_USD ? { maxCostUsd: ROUTE_MAX_COST_USD } : {}),
+  };
+}
+
+function resolveConfidencePolicy(): ConfidencePolicy | undefined {
+  if (
+    Number.isNaN(CONFIDENCE_CLARIFY_BELOW) ||
+    Number.isNaN(CONFIDENCE_CAVEAT_BELOW) ||
+    CONFIDENCE_CLARIFY_BELOW < 0 ||
+    CONFIDENCE_CAVEAT_BELOW > 1 ||
+    CONFIDENCE_CLARIFY_BELOW > CONFIDENCE_CAVEAT_BELOW
+  ) {
+    throw new Error(
+      'CONFIDENCE_CLARIFY_BELOW and CONFIDENCE_CAVEAT_BELOW must satisfy 0 <= clarify <= caveat <= 1.'
+    );
+  }
+  if (CONFIDENCE_CAVEAT_BELOW === 0) {
+    return undefined;
+  }
+  return {
+    clarifyBelow: CONFIDENCE_CLARIFY_BELOW,
+    caveatBelow: CONFIDENCE_CAVEAT_BELOW,
+    maxCandidates: Math.max(1, CONFIDENCE_MAX_CANDIDATES),
+  };
+}
+
+/** The language questions are translated into, or undefined when translation is off. */
+function resolveCorpusLanguage(): string | undefined {
+  if (!/^[a-z]{2}$/i.test(CORPUS_LANGUAGE)) {
+    throw new Error(
+      `CORPUS_LANGUAGE must be an ISO 639-1 code such as "en", got "${CORPUS_LANGUAGE}".`
+    );
+  }
+  return TRANSLATE_QUESTIONS ? CORPUS_LANGUAGE : undefined;
+}
+
+function resolveEscalation(
+  registry: DepartmentRegistry,
+  defaultTeam: string,
+  adapter?: TicketAdapter
+): EscalationService {
+  if (adapter) {
+    return new EscalationService(adapter, registry, defaultTeam);
+  }
+  if (ESCALATION_ADAPTER === 'file') {
+    return new EscalationService(
+      new JsonlTicketAdapter(ESCALATION_TICKETS_PATH),
+      registry,
+      defaultTeam
+    );
+  }
+  if (ESCALATION_ADAPTER !== 'webhook') {
+    throw new Error(
+      `Unsupported ESCALATION_ADAPTER "${ESCALATION_ADAPTER}". Expected off, file, or webhook.`
+    );
+  }
+  if (!process.env.ESCALATION_WEBHOOK_URL) {
+    throw new Error('ESCALATION_ADAPTER=webhook requires ESCALATION_WEBHOOK_URL.');
+  }
+  return new EscalationService(
+    new WebhookTicketAdapter({
+      url: process.env.ESCALATION_WEBHOOK_URL,
+      token: process.env.ESCALATION_WEBHOOK_TOKEN,
+    }),
+    registry,
+    defaultTeam
+  );
+}
+
+async function resolvePiiGuard(): Promise<PiiGuard | undefined> {
+  if (PII_GUARDRAIL === 'off') {
+    return undefined;
+  }
+  if (PII_GUARDRAIL !== 'redact' && PII_GUARDRAIL !== 'tokenize') {
+    throw new Error(
+      `Unsupported PII_GUARDRAIL "${PII_GUARDRAIL}". Expected off, redact, or tokenize.`
+    );
+  }
+  const { detectors, restoreCategories } = await loadPiiConfig(PII_CONFIG);
+  return new PiiGuard({ mode: PII_GUARDRAIL, detectors, restoreCategories });
+}
+
+function resolveAnswerCache(
+  embeddings: OpenAIEmbeddings
+): SemanticAnswerCache<CachedRouteResult> | undefined {
+  if (ANSWER_CACHE === 'off') {
+    return undefined;
+  }
+  if (ANSWER_CACHE !== 'memory' && ANSWER_CACHE !== 'file') {
+    throw new Error(
+      `Unsupported ANSWER_CACHE "${ANSWER_CACHE}". Expected off, memory, or file.`
+    );
+  }
+  if (
+    Number.isNaN(ANSWER_CACHE_THRESHOLD) ||
+    ANSWER_CACHE_THRESHOLD <= 0 ||
+    ANSWER_CACHE_THRESHOLD > 1
+  ) {
+    throw new Error('ANSWER_CACHE_THRESHOLD must be a number in (0, 1].');
+  }
+  const store =
+    ANSWER_CACHE === 'file'
+      ? new FileAnswerCacheStore<CachedRouteResult>(ANSWER_CACHE_PATH)
+      : new InMemoryAnswerCacheStore<CachedRouteResult>();
+  return new SemanticAnswerCache(embeddings, store, {
+    threshold: ANSWER_CACHE_THRESHOLD,
+    ttlMs: ANSWER_CACHE_TTL_SECONDS * 1000,
+  });
+}
+
+function resolveQualityGate(): RecordedRouterSettings['qualityGate'] {
+  if (EVALUATE_TURNS === 'off') {
+    return undefined;
+  }
+  if (EVALUATE_TURNS !== 'flag' && EVALUATE_TURNS !== 'retry') {
+    throw new Error(
+      `Unsupported EVALUATE_TURNS "${EVALUATE_TURNS}". Expected off, flag, or retry.`
+    );
+  }
+  if (
+    Number.isNaN(EVALUATION_MIN_SCORE) ||
+    EVALUATION_MIN_SCORE < 1 ||
+    EVALUATION_MIN_SCORE > 10
+  ) {
+    throw new Error('EVALUATION_MIN_SCORE must be a number between 1 and 10.');
+  }
+  return { mode: EVALUATE_TURNS, minScore: EVALUATION_MIN_SCORE };
+}
+
+function resolveConversationStore(): ConversationStore {
+  if (CONVERSATION_STORE === 'file') {
+    return new FileConversationStore(CONVERSATION_STORE_DIR);
+  }
+  if (CONVERSATION_STORE !== 'memory') {
+    throw new Error(
+      `Unsupported CONVERSATION_STORE "${CONVERSATION_STORE}". Expected memory or file.`
+    );
+  }
+  return new InMemoryConversationStore();
+}
+
+/** CLI identity from `CLI_USER_ID`, `CLI_USER_ROLES` (comma-separated), and `CLI_USER_REGION`. */
+function resolveCliCaller(): CallerIdentity | undefined {
+  const roles = (process.env.CLI_USER_ROLES ?? '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean);
+  if (!process.env.CLI_USER_ID && !roles.length) {
+    return undefined;
+  }
+  return {
+    userId: process.env.CLI_USER_ID ?? 'cli',
+    roles,
+    ...(process.env.CLI_USER_REGION
+      ? { region: process.env.CLI_USER_REGION }
+      : {}),
+  };
+}
+
+const VALUE_FLAGS = ['--record', '--replay'];
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (!value || value.startsWith('-')) {
+    throw new Error(`${flag} expects a cassette path.`);
+  }
+  return path.resolve(value);
+}
+
+async function bootstrap() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const repl = args.includes('--repl') || args.includes('-i');
+  const recordPath = flagValue(args, '--record');
+  const replayPath = flagValue(args, '--replay');
+  // Keep stdout for the JSON result; startup and sync logs go to stderr.
+  const log = json ? console.error : console.log;
+  const registry = await loadDepartments();
+
+  if (replayPath) {
+    const cassette = await Cassette.load(replayPath);
+    const report = await replayCassette(
+      await createReplayRouter(cassette, { registry }),
+      cassette
+    );
+    if (json) {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    } else {
+      console.log(describeReplay(report));
+    }
+    process.exitCode = report.passed ? 0 : 1;
+    return;
+  }
 
-  const agents = await buildAgents(llm, stores);
-  const orchestrator = new OrchestratorAgent(llm);
-  const router = new MultiAgentRouter(orchestrator, agents);
+  const langfuseHandler = await configureLangfuse();
+  const recorder = recordPath ? new CassetteRecorder(recordPath) : undefined;
+  const stopWatching = new AbortController();
+  const router = await createMultiAgentRouter({
+    registry,
+    ...(repl && WATCH_DOCUMENTS
+      ? { watchDocuments: { signal: stopWatching.signal } }
+      : {}),
+    recorder,
+    log,
+  });
+
+  try {
+    if (repl) {
+      await runRepl(router, {
+        departments: registry.departments.map(({ intent }) => intent),
+        langfuseHandler,
+        caller: resolveCliCaller(),
+        json,
+      });
+      stopWatching.abort();
+      return;
+    }
+    await runQueries(router, args, json, langfuseHandler);
+  } finally {
+    if (recorder) {
+      await recorder.flush();
+      console.error(`Recorded cassette ${recorder.filePath}`);
+    }
+  }
+}
 
-  const userQuery = process.argv.slice(2).join(' ').trim();
+async function runQueries(
+  router: MultiAgentRouter,
+  args: string[],
+  json: boolean,
+  langfuseHandler: LangfuseCallbackHandler | undefined
+) {
+  const userQuery = args
+    .filter(
+      (arg, index) =>
+        !['--json', ...VALUE_FLAGS].includes(arg) &&
+        !VALUE_FLAGS.includes(args[index - 1])
+    )
+    .join(' ')
+    .trim();
   if (userQuery) {
     const traceConfig = langfuseHandler ? { callbacks: [langfuseHandler], metadata: { query_type: 'cli' } } : undefined;
-    const result = await router.route(userQuery, traceConfig);
-    console.log('\nQuery:', userQuery);
-    console.log('Ordered intents:', result.classification.intents.join(' → '));
-    for (const turn of result.turns) {
-      console.log(`\n[${turn.intentTried.toUpperCase()} AGENT]`);
-      console.log(turn.response.text);
-      console.log('Sources:', turn.response.sources.join(', '));
-    }
-    if (result.unresolvedIntents.length) {
-      console.log('\nUnresolved intents:', result.unresolvedIntents.join(', '));
+    const result = await router.route(userQuery, traceConfig, {
+      caller: resolveCliCaller(),
+    });
+    if (json) {
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+      return;
     }
+    console.log('\nQuery:', userQuery);
+    printRouteResult(result);
     return;
   }
 
-  await runExamples(router, langfuseHandler);
+  await runExamples(router, json, langfuseHandler);
 }
 
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
@@ -0,0 +1,324 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile, appendFile } from "fs/promises";
+import path from "path";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { AccessConditions } from "../access/access_control.js";
+import type { DepartmentIntent } from "../agents/types.js";
+import type { CitationVerificationOptions } from "../agents/citation_verifier.js";
+import type { ConfidencePolicy } from "../agents/confidence_policy.js";
+import type { EmbeddingUsage, PriceTable, UsageBudget } from "../usage/usage_tracker.js";
+
+export const CASSETTE_VERSION = 2;
+
+export interface RecordedMessage {
+  role: string;
+  content: unknown;
+}
+
+export interface RecordedDocument {
+  pageContent: string;
+  metadata: Record<string, unknown>;
+  score?: number;
+}
+
+/** First line of every cassette: how the recorded router was built. */
+export interface CassetteSetup {
+  type: "setup";
+  version: number;
+  recordedAt: string;
+  /** Departments whose agents also audit withheld content, which retrieve without the ACL filter. */
+  restrictedDepartments: DepartmentIntent[];
+  settings: RecordedRouterSettings;
+}
+
+/**
+ * The env-derived router settings in effect while recording. They decide which calls
+ * a route makes, so replay builds its router from them instead of the current env.
+ */
+export interface RecordedRouterSettings {
+  executionMode: "sequential" | "parallel";
+  synthesize: boolean;
+  citations: CitationVerificationOptions;
+  /** Absent when turns are not evaluated. */
+  qualityGate?: { mode: "flag" | "retry"; minScore: number };
+  /** Corpus language questions are translated into; absent when translation is off. */
+  translateTo?: string;
+  confidencePolicy?: ConfidencePolicy;
+  /** Default team for escalation tickets; absent when escalation is off. */
+  escalationTeam?: string;
+  budget?: UsageBudget;
+  prices: PriceTable;
+}
+
+export interface CassetteRoute {
+  type: "route";
+  route: number;
+  question: string;
+  options: RecordedRouteOptions;
+}
+
+export interface CassetteLlmCall {
+  type: "llm";
+  route: number;
+  key: string;
+  prompt: RecordedMessage[];
+  response: {
+    content: unknown;
+    model?: string;
+    usage?: { input_tokens: number; output_tokens: number; total_tokens: number };
+  };
+}
+
+export interface CassetteRetrieval {
+  type: "retrieval";
+  route: number;
+  key: string;
+  retriever: string;
+  query: string;
+  access?: AccessConditions;
+  /** Whether the call went through `invokeWithScores`. */
+  scored: boolean;
+  documents: RecordedDocument[];
+  /** Embedding calls the query made, replayed into the route's usage. */
+  embeddings?: EmbeddingUsage[];
+}
+
+export interface CassetteResult {
+  type: "result";
+  route: number;
+  /** A `RouteResult`, or the error `route()` threw. */
+  result?: unknown;
+  error?: string;
+}
+
+export type CassetteEntry = CassetteSetup | CassetteRoute | CassetteLlmCall | CassetteRetrieval | CassetteResult;
+
+/** The JSON-safe part of `RouteOptions`; event listeners cannot be recorded. */
+export interface RecordedRouteOptions {
+  sessionId?: string;
+  executionMode?: string;
+  caller?: unknown;
+  clarifies?: unknown;
+  budget?: unknown;
+  intents?: DepartmentIntent[];
+}
+
+export function recordMessages(messages: BaseMessage[]): RecordedMessage[] {
+  return messages.map((message) => ({ role: message._getType(), content: message.content }));
+}
+
+/** Calls are matched by content, so concurrent turns replay correctly whatever order they run in. */
+export function llmCallKey(prompt: RecordedMessage[]): string {
+  return digest(prompt);
+}
+
+export function retrievalKey(retriever: string, query: string, scored: boolean, access?: AccessConditions): string {
+  return digest({ retriever, query, scored, access: access ?? null });
+}
+
+function digest(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex").slice(0, 16);
+}
+
+/** Renders a recorded prompt as plain text for drift diffs. */
+export function promptText(prompt: RecordedMessage[]): string {
+  return prompt
+    .map(({ role, content }) => `[${role}]\n${typeof content === "string" ? content : JSON.stringify(content, null, 2)}`)
+    .join("\n\n");
+}
+
+/**
+ * Writes a JSONL cassette while a router runs against live services. Routes are
+ * recorded one at a time so every LLM call and retrieval is attributed to the route
+ * that made it.
+ */
+export class CassetteRecorder {
+  private writes: Promise<void>;
+  private routes: Promise<unknown> = Promise.resolve();
+  private current = 0;
+  private count = 0;
+
+  constructor(readonly filePath: string) {
+    this.writes = mkdir(path.dirname(filePath), { recursive: true }).then(() => writeFile(filePath, "", "utf8"));
+  }
+
+  setup(restrictedDepartments: DepartmentIntent[], settings: RecordedRouterSettings): Promise<void> {
+    return this.append({
+      type: "setup",
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      restrictedDepartments,
+      settings
+    });
+  }
+
+  /** Runs one route and records its question, options, and result around the calls it makes. */
+  record<T>(question: string, options: RecordedRouteOptions, run: () => Promise<T>): Promise<T> {
+    const recorded = this.routes.then(async () => {
+      this.count += 1;
+      this.current = this.count;
+      await this.append({ type: "route", route: this.current, question, options: jsonSafe(options) });
+      try {
+        const result = await run();
+        await this.append({ type: "result", route: this.current, result: jsonSafe(result) });
+        return result;
+      } catch (error: any) {
+        await this.append({ type: "result", route: this.current, error: error?.message ?? String(error) });
+        throw error;
+      } finally {
+        this.current = 0;
+      }
+    });
+    this.routes = recorded.catch(() => undefined);
+    return recorded;
+  }
+
+  recordLlmCall(prompt: RecordedMessage[], response: CassetteLlmCall["response"]): Promise<void> {
+    return this.append({ type: "llm", route: this.current, key: llmCallKey(prompt), prompt, response });
+  }
+
+  recordRetrieval(entry: Omit<CassetteRetrieval, "type" | "route" | "key">): Promise<void> {
+    return this.append({
+      type: "retrieval",
+      route: this.current,
+      key: retrievalKey(entry.retriever, entry.query, entry.scored, entry.access),
+      ...entry
+    });
+  }
+
+  /** Resolves once every entry so far is on disk. */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private append(entry: CassetteEntry): Promise<void> {
+    const write = this.writes.then(() => appendFile(this.filePath, `${JSON.stringify(entry)}\n`, "utf8"));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+function jsonSafe<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value ?? null));
+}
+
+/** A route as recorded, with the calls it made in the order they finished. */
+export interface RecordedRoute {
+  route: number;
+  question: string;
+  options: RecordedRouteOptions;
+  llmCalls: CassetteLlmCall[];
+  retrievals: CassetteRetrieval[];
+  result?: unknown;
+  error?: string;
+}
+
+/** A loaded cassette. Replay stand-ins draw recorded responses from the active route. */
+export class Cassette {
+  private active?: ActiveRoute;
+
+  private constructor(
+    readonly filePath: string,
+    readonly setup: CassetteSetup,
+    readonly routes: RecordedRoute[]
+  ) {}
+
+  static async load(filePath: string): Promise<Cassette> {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (error: any) {
+      const reason = error?.code === "ENOENT" ? "file not found" : error?.message ?? String(error);
+      throw new Error(`Unable to read cassette ${filePath}: ${reason}`);
+    }
+    const entries = raw
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as CassetteEntry;
+        } catch (error: any) {
+          throw new Error(`Invalid cassette ${filePath} line ${index + 1}: ${error?.message ?? String(error)}`);
+        }
+      });
+    const [setup] = entries;
+    if (setup?.type !== "setup" || setup.version !== CASSETTE_VERSION) {
+      throw new Error(`Invalid cassette ${filePath}: expected a version ${CASSETTE_VERSION} setup line first.`);
+    }
+    const routes = new Map<number, RecordedRoute>();
+    for (const entry of entries) {
+      if (entry.type === "route") {
+        routes.set(entry.route, { ...entry, llmCalls: [], retrievals: [] });
+        continue;
+      }
+      const route = entry.type === "setup" ? undefined : routes.get(entry.route);
+      if (!route) {
+        continue;
+      }
+      if (entry.type === "llm") {
+        route.llmCalls.push(entry);
+      } else if (entry.type === "retrieval") {
+        route.retrievals.push(entry);
+      } else if (entry.type === "result") {
+        route.result = entry.result;
+        route.error = entry.error;
+      }
+    }
+    return new Cassette(filePath, setup, [...routes.values()]);
+  }
+
+  /** Whether `retriever` was called through `invokeWithScores` when recording. */
+  scoredRetriever(retriever: string): boolean {
+    return !this.routes.some((route) =>
+      route.retrievals.some((entry) => entry.retriever === retriever && !entry.scored)
+    );
+  }
+
+  /** Makes `route` the source of recorded responses until the next call. */
+  activate(route: RecordedRoute): ActiveRoute {
+    this.active = new ActiveRoute(route);
+    return this.active;
+  }
+
+  get activeRoute(): ActiveRoute {
+    if (!this.active) {
+      throw new Error("No cassette route is active; replay routes through replayCassette().");
+    }
+    return this.active;
+  }
+}
+
+/** Tracks which recordings of one route were replayed and which requests had none. */
+export class ActiveRoute {
+  readonly misses: string[] = [];
+  private readonly llmUsed = new Set<CassetteLlmCall>();
+  private readonly retrievalsUsed = new Set<CassetteRetrieval>();
+
+  constructor(readonly recorded: RecordedRoute) {}
+
+  takeLlmCall(key: string): CassetteLlmCall | undefined {
+    return take(this.recorded.llmCalls, this.llmUsed, key);
+  }
+
+  takeRetrieval(key: string): CassetteRetrieval | undefined {
+    return take(this.recorded.retrievals, this.retrievalsUsed, key);
+  }
+
+  /** Recorded LLM calls not yet replayed, used to explain a miss. */
+  unusedLlmCalls(): CassetteLlmCall[] {
+    return this.recorded.llmCalls.filter((entry) => !this.llmUsed.has(entry));
+  }
+
+  unusedRetrievals(): CassetteRetrieval[] {
+    return this.recorded.retrievals.filter((entry) => !this.retrievalsUsed.has(entry));
+  }
+}
+
+/** Identical requests replay their recordings in order. */
+function take<T extends { key: string }>(entries: T[], used: Set<T>, key: string): T | undefined {
+  const entry = entries.find((candidate) => candidate.key === key && !used.has(candidate));
+  if (entry) {
+    used.add(entry);
+  }
+  return entry;
+}
@@ -0,0 +1,109 @@
+export interface Drift {
+  /** Where the values differ, e.g. `turns[0].response.sources[1]`. */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * Fields that legitimately change between runs: timings, generated ticket IDs, cache
+ * timestamps, and the model name providers report (which may carry a snapshot suffix).
+ */
+export const DEFAULT_IGNORED_FIELDS = ["latencyMs", "durationMs", "ticketId", "cachedAt", "model"];
+
+/** Lists every leaf where `actual` differs from `expected`, skipping `ignoredFields` by key. */
+export function diffValues(
+  expected: unknown,
+  actual: unknown,
+  ignoredFields: string[] = DEFAULT_IGNORED_FIELDS,
+  path = ""
+): Drift[] {
+  if (Object.is(expected, actual)) {
+    return [];
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const drift: Drift[] = [];
+    for (let index = 0; index < Math.max(expected.length, actual.length); index += 1) {
+      drift.push(...diffValues(expected[index], actual[index], ignoredFields, `${path}[${index}]`));
+    }
+    return drift;
+  }
+  if (isRecord(expected) && isRecord(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys
+      .filter((key) => !ignoredFields.includes(key))
+      .flatMap((key) => diffValues(expected[key], actual[key], ignoredFields, path ? `${path}.${key}` : key));
+  }
+  return [{ path: path || "(root)", expected, actual }];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Renders drift as `path` followed by `-` expected and `+` actual lines. */
+export function describeDrift(drift: Drift[]): string {
+  return drift
+    .map(({ path, expected, actual }) => {
+      if (typeof expected === "string" && typeof actual === "string" && (expected + actual).includes("\n")) {
+        return `${path}\n${indent(diffLines(expected, actual))}`;
+      }
+      return `${path}\n  - ${formatValue(expected)}\n  + ${formatValue(actual)}`;
+    })
+    .join("\n");
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(missing)" : JSON.stringify(value);
+}
+
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => `  ${line}`)
+    .join("\n");
+}
+
+/**
+ * Line diff of two texts (longest common subsequence), showing changed lines with one
+ * line of context and eliding unchanged runs.
+ */
+export function diffLines(expected: string, actual: string): string {
+  const before = expected.split("\n");
+  const after = actual.split("\n");
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: { mark: " " | "-" | "+"; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ mark: " ", text: before[i] });
+      i += 1;
+      j += 1;
+    } else if (i < before.length && (j >= after.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ mark: "-", text: before[i] });
+      i += 1;
+    } else {
+      lines.push({ mark: "+", text: after[j] });
+      j += 1;
+    }
+  }
+  const changed = (index: number) => lines[index] !== undefined && lines[index].mark !== " ";
+  const shown = lines.map((line, index) =>
+    changed(index) || changed(index - 1) || changed(index + 1) ? line : undefined
+  );
+  const output: string[] = [];
+  for (const line of shown) {
+    if (line) {
+      output.push(`${line.mark} ${line.text}`);
+    } else if (output[output.length - 1] !== "  …") {
+      output.push("  …");
+    }
+  }
+  return output.join("\n");
+}
@@ -0,0 +1,105 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { RetrievalOptions, RetrieverLike } from "../agents/domain_agent.js";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { meterEmbeddings } from "../usage/usage_tracker.js";
+import type { EmbeddingUsage } from "../usage/usage_tracker.js";
+import { recordMessages } from "./cassette.js";
+import type { CassetteRecorder, RecordedDocument } from "./cassette.js";
+
+/** Passes calls through to a live model and records each prompt with its reply. */
+export class RecordingChatModel implements ChatModelLike {
+  constructor(
+    private readonly model: ChatModelLike,
+    private readonly recorder: CassetteRecorder
+  ) {}
+
+  async invoke(input: BaseMessage[], config?: RunnableConfig): Promise<BaseMessage> {
+    const reply = await this.model.invoke(input, config);
+    const usage = (reply as { usage_metadata?: { input_tokens: number; output_tokens: number; total_tokens: number } })
+      .usage_metadata;
+    const model = reply.response_metadata?.model_name ?? reply.response_metadata?.model;
+    await this.recorder.recordLlmCall(recordMessages(input), {
+      content: reply.content,
+      ...(typeof model === "string" ? { model } : {}),
+      ...(usage
+        ? {
+            usage: {
+              input_tokens: usage.input_tokens,
+              output_tokens: usage.output_tokens,
+              total_tokens: usage.total_tokens
+            }
+          }
+        : {})
+    });
+    return reply;
+  }
+}
+
+/**
+ * Passes queries through to a live retriever and records the documents it returned,
+ * along with the usage of the embedding calls the query made.
+ * Exposes `invokeWithScores` only when the wrapped retriever does, so agents take the
+ * same path as without recording.
+ */
+export class RecordingRetriever implements RetrieverLike {
+  invokeWithScores?: RetrieverLike["invokeWithScores"];
+
+  constructor(
+    private readonly retriever: RetrieverLike,
+    private readonly name: string,
+    private readonly recorder: CassetteRecorder
+  ) {
+    if (retriever.invokeWithScores) {
+      this.invokeWithScores = async (input, config, options) => {
+        const embeddings: EmbeddingUsage[] = [];
+        const scored = await meterEmbeddings(
+          (usage) => embeddings.push(usage),
+          () => retriever.invokeWithScores!(input, config, options)
+        );
+        await this.record(input, true, options, scored, embeddings);
+        return scored;
+      };
+    }
+  }
+
+  async invoke(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<DocumentInterface[]> {
+    const embeddings: EmbeddingUsage[] = [];
+    const documents = await meterEmbeddings(
+      (usage) => embeddings.push(usage),
+      () => this.retriever.invoke(input, config, options)
+    );
+    await this.record(
+      input,
+      false,
+      options,
+      documents.map((document) => ({ document })),
+      embeddings
+    );
+    return documents;
+  }
+
+  private record(
+    query: string,
+    scored: boolean,
+    options: RetrievalOptions | undefined,
+    results: { document: DocumentInterface; score?: number }[],
+    embeddings: EmbeddingUsage[]
+  ): Promise<void> {
+    return this.recorder.recordRetrieval({
+      retriever: this.name,
+      query,
+      ...(options?.access ? { access: options.access } : {}),
+      ...(embeddings.length ? { embeddings } : {}),
+      scored,
+      documents: results.map(
+        ({ document, score }): RecordedDocument => ({
+          pageContent: document.pageContent,
+          metadata: document.metadata,
+          ...(score !== undefined ? { score } : {})
+        })
+      )
+    });
+  }
+}
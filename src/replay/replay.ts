@@ -0,0 +1,220 @@
+import { Document } from "@langchain/core/documents";
+import type { DocumentInterface } from "@langchain/core/documents";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage } from "@langchain/core/messages";
+import type { BaseMessage, MessageContent } from "@langchain/core/messages";
+import type { ChatResult } from "@langchain/core/outputs";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { AccessConditions } from "../access/access_control.js";
+import type { RetrievalOptions, RetrieverLike } from "../agents/domain_agent.js";
+import type { MultiAgentRouter, RouteOptions } from "../multi_agent_system.js";
+import { reportEmbeddingUsage, trackEmbeddings } from "../usage/usage_tracker.js";
+import { llmCallKey, promptText, recordMessages, retrievalKey } from "./cassette.js";
+import type { ActiveRoute, Cassette, CassetteLlmCall, RecordedMessage } from "./cassette.js";
+import { DEFAULT_IGNORED_FIELDS, describeDrift, diffLines, diffValues } from "./drift.js";
+import type { Drift } from "./drift.js";
+
+/** Raised when a replayed request has no recording; the message explains the closest one. */
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * Chat model that answers from a cassette instead of a provider. It is a regular
+ * LangChain chat model, so callbacks, tracing, and usage tracking (from the recorded
+ * token counts) behave as they did when recording.
+ */
+export class ReplayChatModel extends BaseChatModel {
+  constructor(private readonly cassette: Cassette) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "replay";
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const route = this.cassette.activeRoute;
+    const prompt = recordMessages(messages);
+    const entry = route.takeLlmCall(llmCallKey(prompt));
+    if (!entry) {
+      const miss = describeLlmMiss(prompt, route.unusedLlmCalls());
+      route.misses.push(miss);
+      throw new CassetteMissError(miss);
+    }
+    const { content, model, usage } = entry.response;
+    const message = new AIMessage({
+      content: content as MessageContent,
+      ...(usage ? { usage_metadata: usage } : {}),
+      response_metadata: model ? { model_name: model } : {}
+    });
+    return {
+      generations: [{ text: typeof content === "string" ? content : "", message }],
+      llmOutput: model ? { model_name: model } : {}
+    };
+  }
+}
+
+/** Retriever that returns the documents recorded for the same query, retriever, and ACL. */
+export class ReplayRetriever implements RetrieverLike {
+  invokeWithScores?: RetrieverLike["invokeWithScores"];
+
+  constructor(
+    private readonly cassette: Cassette,
+    private readonly name: string
+  ) {
+    if (cassette.scoredRetriever(name)) {
+      this.invokeWithScores = async (input, config, options) =>
+        (await this.replay(input, true, config, options?.access)).map(({ document, score }) => ({
+          document,
+          score: score ?? 0
+        }));
+    }
+  }
+
+  async invoke(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<DocumentInterface[]> {
+    return (await this.replay(input, false, config, options?.access)).map(({ document }) => document);
+  }
+
+  private async replay(
+    query: string,
+    scored: boolean,
+    config: RunnableConfig | undefined,
+    access: AccessConditions | undefined
+  ): Promise<{ document: DocumentInterface; score?: number }[]> {
+    const route = this.cassette.activeRoute;
+    const entry = route.takeRetrieval(retrievalKey(this.name, query, scored, access));
+    if (!entry) {
+      const miss = describeRetrievalMiss(this.name, query, route);
+      route.misses.push(miss);
+      throw new CassetteMissError(miss);
+    }
+    // Reported as the live retriever would, so the route's usage matches the recording.
+    await trackEmbeddings(config, "retrieval", async () => entry.embeddings?.forEach(reportEmbeddingUsage));
+    return entry.documents.map(({ pageContent, metadata, score }) => ({
+      document: new Document({ pageContent, metadata }),
+      ...(score !== undefined ? { score } : {})
+    }));
+  }
+}
+
+function describeLlmMiss(prompt: RecordedMessage[], unused: CassetteLlmCall[]): string {
+  if (!unused.length) {
+    return `Unrecorded LLM call; every recorded call of this route was already replayed. Prompt:\n${promptText(prompt)}`;
+  }
+  const actual = promptText(prompt);
+  const actualLines = new Set(actual.split("\n"));
+  // Calls from the same component share their first (system) message; prefer those.
+  const sameComponent = (entry: CassetteLlmCall) =>
+    JSON.stringify(entry.prompt[0]) === JSON.stringify(prompt[0]) ? 1 : 0;
+  const closest = unused
+    .map((entry) => {
+      const expected = promptText(entry.prompt);
+      return {
+        expected,
+        component: sameComponent(entry),
+        shared: expected.split("\n").filter((line) => actualLines.has(line)).length
+      };
+    })
+    .sort((a, b) => b.component - a.component || b.shared - a.shared)[0];
+  return `LLM prompt drifted from the closest recording (- recorded, + replayed):\n${diffLines(closest.expected, actual)}`;
+}
+
+function describeRetrievalMiss(retriever: string, query: string, route: ActiveRoute): string {
+  const candidates = route.unusedRetrievals().filter((entry) => entry.retriever === retriever);
+  if (!candidates.length) {
+    return `Unrecorded ${retriever} retrieval for "${query}".`;
+  }
+  const lines = candidates.map(
+    (entry) => `  ${JSON.stringify(entry.query)}${entry.access ? ` (access ${JSON.stringify(entry.access)})` : ""}`
+  );
+  return `Unrecorded ${retriever} retrieval for "${query}". Unreplayed recordings for ${retriever}:\n${lines.join("\n")}`;
+}
+
+export interface ReplayOptions {
+  /** Result fields compared by neither value nor presence; defaults to timings and generated IDs. */
+  ignoredFields?: string[];
+}
+
+export interface RouteReplay {
+  route: number;
+  question: string;
+  /** Differences between the recorded and replayed `RouteResult` (or error). */
+  drift: Drift[];
+  /** Requests that had no recording, with a diff against the closest one. */
+  misses: string[];
+  /** Recorded calls the replay never made. */
+  unusedLlmCalls: number;
+  unusedRetrievals: number;
+}
+
+export interface ReplayReport {
+  cassette: string;
+  routes: RouteReplay[];
+  passed: boolean;
+}
+
+/**
+ * Replays every recorded route in order through `router`, which must be built on this
+ * cassette's stand-ins (see `createReplayRouter`), and compares the outcomes.
+ */
+export async function replayCassette(
+  router: Pick<MultiAgentRouter, "route">,
+  cassette: Cassette,
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const ignoredFields = options.ignoredFields ?? DEFAULT_IGNORED_FIELDS;
+  const routes: RouteReplay[] = [];
+  for (const recorded of cassette.routes) {
+    const active = cassette.activate(recorded);
+    let outcome: { result?: unknown; error?: string };
+    try {
+      const result = await router.route(recorded.question, undefined, recorded.options as RouteOptions);
+      outcome = { result: JSON.parse(JSON.stringify(result)) };
+    } catch (error: any) {
+      outcome = { error: error?.message ?? String(error) };
+    }
+    routes.push({
+      route: recorded.route,
+      question: recorded.question,
+      drift: diffValues({ result: recorded.result, error: recorded.error }, outcome, ignoredFields),
+      misses: active.misses,
+      unusedLlmCalls: active.unusedLlmCalls().length,
+      unusedRetrievals: active.unusedRetrievals().length
+    });
+  }
+  return {
+    cassette: cassette.filePath,
+    routes,
+    passed: routes.every(
+      (route) => !route.drift.length && !route.misses.length && !route.unusedLlmCalls && !route.unusedRetrievals
+    )
+  };
+}
+
+export function describeReplay(report: ReplayReport): string {
+  const drifted = report.routes.filter(
+    (route) => route.drift.length || route.misses.length || route.unusedLlmCalls || route.unusedRetrievals
+  );
+  const lines = [
+    `Replayed ${report.routes.length} route(s) from ${report.cassette}: ${report.routes.length - drifted.length} matched, ${drifted.length} drifted.`
+  ];
+  for (const route of drifted) {
+    lines.push("", `Route ${route.route}: ${JSON.stringify(route.question)}`);
+    for (const miss of route.misses) {
+      lines.push(miss);
+    }
+    if (route.unusedLlmCalls || route.unusedRetrievals) {
+      lines.push(
+        `${route.unusedLlmCalls} recorded LLM call(s) and ${route.unusedRetrievals} retrieval(s) were not replayed.`
+      );
+    }
+    if (route.drift.length) {
+      lines.push("Result drift (- recorded, + replayed):", describeDrift(route.drift));
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,123 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { matchesAccessConditions } from "../access/access_control.js";
+import type { RetrievalOptions, RetrieverLike, ScoredDocument } from "../agents/domain_agent.js";
+import { KB_ID_PATTERN } from "../ingestion/section_splitter.js";
+import { termCoverage } from "./keyword_index.js";
+import type { KeywordIndex } from "./keyword_index.js";
+
+const KB_ID_QUERY_PATTERN = new RegExp(KB_ID_PATTERN.source, "gi");
+
+export interface HybridRetrieverOptions {
+  /** Vector retriever returning at least `candidateK` results. */
+  vectorRetriever: RetrieverLike;
+  keywordIndex: KeywordIndex;
+  k: number;
+  candidateK?: number;
+  vectorWeight?: number;
+  keywordWeight?: number;
+  /** Reciprocal rank fusion damping constant. */
+  rrfK?: number;
+}
+
+/**
+ * Fuses vector and BM25 results with weighted reciprocal rank fusion. Chunks whose
+ * `kb_id` is named in the question are pinned ahead of the fused ranking.
+ */
+export class HybridRetriever implements RetrieverLike {
+  private readonly candidateK: number;
+  private readonly vectorWeight: number;
+  private readonly keywordWeight: number;
+  private readonly rrfK: number;
+
+  constructor(private readonly options: HybridRetrieverOptions) {
+    this.candidateK = options.candidateK ?? options.k * 4;
+    this.vectorWeight = options.vectorWeight ?? 1;
+    this.keywordWeight = options.keywordWeight ?? 1;
+    this.rrfK = options.rrfK ?? 60;
+  }
+
+  async invoke(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<DocumentInterface[]> {
+    const scored = await this.invokeWithScores(input, config, options);
+    return scored.map(({ document }) => document);
+  }
+
+  /**
+   * Ranks by fused rank, but reports each chunk's relevance on an absolute scale so
+   * thresholds stay meaningful: the vector similarity or the share of query terms the
+   * chunk contains, whichever is higher, and 1 for pinned KB-ID matches.
+   */
+  async invokeWithScores(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<ScoredDocument[]> {
+    const { k, keywordIndex, vectorRetriever } = this.options;
+    const access = options?.access;
+    const permitted = access ? (doc: DocumentInterface) => matchesAccessConditions(doc.metadata, access) : undefined;
+    const pinned = this.pinnedDocuments(input).filter((doc) => !permitted || permitted(doc));
+    const vectorResults =
+      this.vectorWeight > 0 ? await this.vectorCandidates(vectorRetriever, input, config, options) : [];
+    const keywordDocs =
+      this.keywordWeight > 0 ? keywordIndex.search(input, this.candidateK, permitted).map(([doc]) => doc) : [];
+
+    const fused = new Map<string, { document: DocumentInterface; rank: number; similarity?: number }>();
+    const accumulate = (results: { document: DocumentInterface; score?: number }[], weight: number) => {
+      results.forEach(({ document, score }, rank) => {
+        const key = documentKey(document);
+        const entry = fused.get(key) ?? { document, rank: 0 };
+        entry.rank += weight / (this.rrfK + rank + 1);
+        if (score !== undefined) {
+          entry.similarity = score;
+        }
+        fused.set(key, entry);
+      });
+    };
+    accumulate(vectorResults.slice(0, this.candidateK), this.vectorWeight);
+    accumulate(keywordDocs.map((document) => ({ document })), this.keywordWeight);
+
+    const pinnedKeys = new Set(pinned.map(documentKey));
+    const ranked = [...fused.values()]
+      .filter((entry) => !pinnedKeys.has(documentKey(entry.document)))
+      .sort((a, b) => b.rank - a.rank)
+      .map(({ document, similarity }) => ({
+        document,
+        score: Math.max(similarity ?? 0, termCoverage(input, document.pageContent))
+      }));
+    return [...pinned.map((document) => ({ document, score: 1 })), ...ranked].slice(
+      0,
+      Math.max(k, pinned.length)
+    );
+  }
+
+  private async vectorCandidates(
+    retriever: RetrieverLike,
+    input: string,
+    config?: RunnableConfig,
+    options?: RetrievalOptions
+  ): Promise<{ document: DocumentInterface; score?: number }[]> {
+    if (retriever.invokeWithScores) {
+      return retriever.invokeWithScores(input, config, options);
+    }
+    const documents = await retriever.invoke(input, config, options);
+    return documents.map((document) => ({ document }));
+  }
+
+  private pinnedDocuments(input: string): DocumentInterface[] {
+    const requested = [...new Set((input.match(KB_ID_QUERY_PATTERN) ?? []).map((id) => id.toUpperCase()))];
+    if (!requested.length) {
+      return [];
+    }
+    const pinned: DocumentInterface[] = [];
+    for (const kbId of requested) {
+      for (const doc of this.options.keywordIndex.documents) {
+        const docKbId = doc.metadata?.kb_id;
+        if (typeof docKbId === "string" && docKbId.toUpperCase() === kbId) {
+          pinned.push(doc);
+        }
+      }
+    }
+    return pinned;
+  }
+}
+
+function documentKey(doc: DocumentInterface): string {
+  const source = typeof doc.metadata?.source === "string" ? doc.metadata.source : "";
+  return `${source}\u0000${doc.pageContent}`;
+}
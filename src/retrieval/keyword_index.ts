@@ -0,0 +1,117 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "i", "in",
+  "is", "it", "my", "of", "on", "or", "say", "the", "to", "what", "when", "who", "with"
+]);
+
+/**
+ * Tokenizes for exact-term matching: hyphenated identifiers such as `W-8BEN` or
+ * `KB-FIN042` are kept whole and also indexed by their parts.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const raw of text.toLowerCase().split(/[^a-z0-9-]+/)) {
+    const token = raw.replace(/^-+|-+$/g, "");
+    if (!token || STOPWORDS.has(token)) {
+      continue;
+    }
+    tokens.push(token);
+    if (token.includes("-")) {
+      tokens.push(...token.split("-").filter((part) => part && !STOPWORDS.has(part)));
+    }
+  }
+  return tokens;
+}
+
+/** Share of the query's distinct terms that appear in `text`, in [0, 1]. */
+export function termCoverage(query: string, text: string): number {
+  const terms = new Set(tokenize(query));
+  if (!terms.size) {
+    return 0;
+  }
+  const present = new Set(tokenize(text));
+  let matched = 0;
+  for (const term of terms) {
+    if (present.has(term)) {
+      matched += 1;
+    }
+  }
+  return matched / terms.size;
+}
+
+interface IndexedDocument {
+  doc: DocumentInterface;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * In-memory BM25 index built from the same split documents that are embedded, so
+ * acronyms and identifiers that embeddings blur still rank by exact term overlap.
+ */
+export class KeywordIndex {
+  private entries: IndexedDocument[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(
+    docs: DocumentInterface[],
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {
+    this.reset(docs);
+  }
+
+  get documents(): DocumentInterface[] {
+    return this.entries.map((entry) => entry.doc);
+  }
+
+  /** Rebuilds the index from a new chunk set, e.g. after a document was re-indexed. */
+  reset(docs: DocumentInterface[]): void {
+    this.documentFrequencies = new Map();
+    this.entries = docs.map((doc) => {
+      const tokens = tokenize(doc.pageContent);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      }
+      return { doc, termFrequencies, length: tokens.length };
+    });
+    const totalLength = this.entries.reduce((sum, entry) => sum + entry.length, 0);
+    this.averageLength = this.entries.length ? totalLength / this.entries.length : 0;
+  }
+
+  /** Returns the top `k` matches, considering only documents accepted by `filter` when given. */
+  search(query: string, k: number, filter?: (doc: DocumentInterface) => boolean): [DocumentInterface, number][] {
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length || !this.entries.length) {
+      return [];
+    }
+    const total = this.entries.length;
+    const scored: [DocumentInterface, number][] = [];
+    for (const entry of this.entries) {
+      if (filter && !filter(entry.doc)) {
+        continue;
+      }
+      let score = 0;
+      for (const term of terms) {
+        const frequency = entry.termFrequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const normalization = this.k1 * (1 - this.b + (this.b * entry.length) / (this.averageLength || 1));
+        score += idf * ((frequency * (this.k1 + 1)) / (frequency + normalization));
+      }
+      if (score > 0) {
+        scored.push([entry.doc, score]);
+      }
+    }
+    return scored.sort((a, b) => b[1] - a[1]).slice(0, k);
+  }
+}
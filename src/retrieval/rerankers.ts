@@ -0,0 +1,105 @@
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { ChatModelLike } from "../llm/resilient_chat_model.js";
+import { invokeStructured, type OutputParserLike } from "../llm/structured_output.js";
+import { StructuredOutputParser } from "langchain/output_parsers";
+import { z } from "zod";
+import type { Reranker, ScoredDocument } from "../agents/domain_agent.js";
+import { termCoverage, tokenize } from "./keyword_index.js";
+
+export type RerankerKind = "none" | "lexical" | "llm";
+
+/**
+ * Local reranker with no model calls: scores each chunk by how many query terms it
+ * contains, with a bonus for query bigrams that appear as adjacent terms.
+ */
+export class LexicalReranker implements Reranker {
+  async rerank(query: string, candidates: ScoredDocument[]): Promise<ScoredDocument[]> {
+    const queryBigrams = bigrams(tokenize(query));
+    return candidates
+      .map(({ document }) => {
+        const coverage = termCoverage(query, document.pageContent);
+        if (!queryBigrams.size) {
+          return { document, score: coverage };
+        }
+        const docBigrams = bigrams(tokenize(document.pageContent));
+        const phraseHits = [...queryBigrams].filter((bigram) => docBigrams.has(bigram)).length;
+        return { document, score: 0.7 * coverage + 0.3 * (phraseHits / queryBigrams.size) };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+function bigrams(tokens: string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let idx = 1; idx < tokens.length; idx += 1) {
+    pairs.add(`${tokens[idx - 1]} ${tokens[idx]}`);
+  }
+  return pairs;
+}
+
+interface RelevanceJudgement {
+  scores: { index: number; score: number }[];
+}
+
+function createRerankParser() {
+  return StructuredOutputParser.fromZodSchema(
+    z.object({
+      scores: z.array(
+        z.object({
+          index: z.number().int().min(0),
+          score: z.number().min(0).max(10)
+        })
+      )
+    })
+  );
+}
+
+/**
+ * Cross-encoder-style reranker: the LLM reads the question with every candidate and
+ * grades each one 0-10, normalized to [0, 1]. Candidates it omits score 0.
+ */
+export class LlmReranker implements Reranker {
+  private readonly parser: OutputParserLike<RelevanceJudgement>;
+  private readonly prompt: ChatPromptTemplate;
+
+  constructor(private readonly llm: ChatModelLike) {
+    this.parser = createRerankParser();
+    this.prompt = ChatPromptTemplate.fromMessages([
+      [
+        "system",
+        "You grade how useful policy passages are for answering an employee question. Score each passage from 0 (irrelevant) to 10 (directly answers the question). Judge relevance only; do not answer the question."
+      ],
+      ["human", "Question: {question}\n\nPassages:\n{passages}\n\nReturn JSON that follows: {format_instructions}"]
+    ]);
+  }
+
+  async rerank(query: string, candidates: ScoredDocument[], config?: RunnableConfig): Promise<ScoredDocument[]> {
+    if (!candidates.length) {
+      return [];
+    }
+    const passages = candidates
+      .map(({ document }, idx) => `[${idx}] ${document.pageContent}`)
+      .join("\n\n");
+    const messages = await this.prompt.formatMessages({
+      question: query,
+      passages,
+      format_instructions: this.parser.getFormatInstructions()
+    });
+    const parsed = await invokeStructured(this.llm, messages, this.parser, config);
+    const grades = new Map(parsed.scores.map(({ index, score }) => [index, score / 10]));
+    return candidates
+      .map(({ document }, idx) => ({ document, score: grades.get(idx) ?? 0 }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+export function createReranker(kind: RerankerKind, llm: ChatModelLike): Reranker | undefined {
+  if (kind === "lexical") {
+    return new LexicalReranker();
+  }
+  if (kind === "llm") {
+    return new LlmReranker(llm);
+  }
+  return undefined;
+}
@@ -0,0 +1,35 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { VectorStore } from "@langchain/core/vectorstores";
+import type { AccessConditions } from "../access/access_control.js";
+import type { RetrievalOptions, RetrieverLike, ScoredDocument } from "../agents/domain_agent.js";
+import { trackEmbeddings } from "../usage/usage_tracker.js";
+
+/**
+ * Similarity retriever that keeps the vector store's scores. Both bundled providers
+ * use cosine similarity, so scores are comparable with relevance thresholds.
+ */
+export class VectorRetriever implements RetrieverLike {
+  constructor(
+    private readonly store: VectorStore,
+    private readonly k: number,
+    /** Builds the backend filter for ACL conditions; see `VectorStoreProvider.accessFilter`. */
+    private readonly accessFilter?: (conditions: AccessConditions) => VectorStore["FilterType"]
+  ) {}
+
+  async invoke(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<DocumentInterface[]> {
+    const scored = await this.invokeWithScores(input, config, options);
+    return scored.map(({ document }) => document);
+  }
+
+  async invokeWithScores(input: string, config?: RunnableConfig, options?: RetrievalOptions): Promise<ScoredDocument[]> {
+    if (options?.access && !this.accessFilter) {
+      throw new Error("VectorRetriever cannot enforce access conditions without an access filter.");
+    }
+    const filter = options?.access ? this.accessFilter!(options.access) : undefined;
+    const results = await trackEmbeddings(config, "retrieval", () =>
+      this.store.similaritySearchWithScore(input, this.k, filter, config?.callbacks)
+    );
+    return results.map(([document, score]) => ({ document, score }));
+  }
+}
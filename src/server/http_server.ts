@@ -0,0 +1,283 @@
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import { fileURLToPath } from "url";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { CallbackHandler as LangfuseCallbackHandler } from "@langfuse/langchain";
+import {
+  configureLangfuse,
+  createLangfuseHandler,
+  createMultiAgentRouter,
+  loadDepartments
+} from "../multi_agent_system.js";
+import type { MultiAgentRouter, RouteEventListener } from "../multi_agent_system.js";
+import type { CallerIdentity } from "../access/access_control.js";
+import { SessionOwnershipError } from "../conversation/conversation_store.js";
+
+const MAX_BODY_BYTES = 64 * 1024;
+const REQUEST_ID_HEADER = "x-request-id";
+const USER_ID_HEADER = "x-user-id";
+const USER_ROLES_HEADER = "x-user-roles";
+const USER_REGION_HEADER = "x-user-region";
+
+export interface ServiceState {
+  router?: MultiAgentRouter;
+  storesReady: Record<string, boolean>;
+  startupError?: string;
+}
+
+export interface RouterServiceOptions {
+  state: ServiceState;
+  /**
+   * Creates the Langfuse handler for one request. Requests run concurrently, so each
+   * gets its own handler and rubric scores attach to that request's trace.
+   */
+  createLangfuseHandler?(): LangfuseCallbackHandler | undefined;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * HTTP surface for `MultiAgentRouter`:
+ * - `POST /route` returns the full `RouteResult` as JSON.
+ * - `POST|GET /route/stream` emits Server-Sent Events per routing step.
+ * - `GET /healthz` reports liveness; `GET /readyz` reports vector store readiness.
+ *
+ * The caller identity is read from `x-user-id`, `x-user-roles`, and `x-user-region`,
+ * which must be set by a trusted authenticating proxy in front of this service.
+ */
+export function createRouterServer({ state, createLangfuseHandler }: RouterServiceOptions): Server {
+  return createServer((req, res) => {
+    const requestId = resolveRequestId(req);
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    handleRequest(req, res, requestId, state, createLangfuseHandler).catch((error) => {
+      const status =
+        error instanceof HttpError ? error.status : error instanceof SessionOwnershipError ? 403 : 500;
+      if (status >= 500) {
+        console.error(`[${requestId}] Request failed`, error);
+      }
+      if (!res.headersSent) {
+        sendJson(res, status, { error: error?.message ?? "Internal error", requestId });
+      } else {
+        res.end();
+      }
+    });
+  });
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  requestId: string,
+  state: ServiceState,
+  createLangfuseHandler?: () => LangfuseCallbackHandler | undefined
+): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method === "GET" && url.pathname === "/healthz") {
+    sendJson(res, 200, { status: "ok" });
+    return;
+  }
+  if (req.method === "GET" && url.pathname === "/readyz") {
+    const ready = Boolean(state.router);
+    sendJson(res, ready ? 200 : 503, {
+      status: ready ? "ready" : state.startupError ? "failed" : "starting",
+      vectorStores: state.storesReady,
+      ...(state.startupError ? { error: state.startupError } : {})
+    });
+    return;
+  }
+
+  if (url.pathname === "/route" && req.method === "POST") {
+    const router = requireRouter(state);
+    const { question, sessionId } = await readRouteRequest(req);
+    const result = await router.route(question, traceConfig(requestId, createLangfuseHandler?.(), sessionId), {
+      sessionId,
+      caller: resolveCaller(req)
+    });
+    sendJson(res, 200, { requestId, ...result });
+    return;
+  }
+
+  if (url.pathname === "/route/stream" && (req.method === "POST" || req.method === "GET")) {
+    const router = requireRouter(state);
+    const { question, sessionId } =
+      req.method === "GET"
+        ? {
+            question: validateQuestion(url.searchParams.get("question")),
+            sessionId: validateSessionId(url.searchParams.get("sessionId") ?? undefined)
+          }
+        : await readRouteRequest(req);
+    res.writeHead(200, {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive"
+    });
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const events: RouteEventListener = {
+      onClassification: (classification) => send("classification", classification),
+      onTurn: (turn) => send("turn", turn),
+      onHandoff: (handoff) => send("handoff", handoff),
+      onUnresolved: (intents) => send("unresolved", { intents }),
+      onSynthesis: (synthesis) => send("synthesis", synthesis),
+      onClarification: (clarification) => send("clarification", clarification)
+    };
+    try {
+      const result = await router.route(question, traceConfig(requestId, createLangfuseHandler?.(), sessionId), {
+        events,
+        sessionId,
+        caller: resolveCaller(req)
+      });
+      send("result", { requestId, ...result });
+    } catch (error: any) {
+      console.error(`[${requestId}] Streamed route failed`, error);
+      send("error", { requestId, error: error?.message ?? "Internal error" });
+    }
+    res.end();
+    return;
+  }
+
+  throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+}
+
+function traceConfig(
+  requestId: string,
+  langfuseHandler?: LangfuseCallbackHandler,
+  sessionId?: string
+): RunnableConfig {
+  return {
+    ...(langfuseHandler ? { callbacks: [langfuseHandler] } : {}),
+    metadata: {
+      query_type: "api",
+      request_id: requestId,
+      ...(sessionId ? { session_id: sessionId } : {})
+    }
+  };
+}
+
+function requireRouter(state: ServiceState): MultiAgentRouter {
+  if (!state.router) {
+    throw new HttpError(503, "Router is not ready yet. Check /readyz.");
+  }
+  return state.router;
+}
+
+function resolveRequestId(req: IncomingMessage): string {
+  const header = req.headers[REQUEST_ID_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && /^[\w.-]{1,128}$/.test(value) ? value : randomUUID();
+}
+
+function resolveCaller(req: IncomingMessage): CallerIdentity | undefined {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  };
+  const userId = header(USER_ID_HEADER);
+  if (!userId) {
+    return undefined;
+  }
+  const region = header(USER_REGION_HEADER);
+  return {
+    userId,
+    roles: (header(USER_ROLES_HEADER) ?? "")
+      .split(",")
+      .map((role) => role.trim())
+      .filter(Boolean),
+    ...(region ? { region } : {})
+  };
+}
+
+interface RouteRequest {
+  question: string;
+  sessionId?: string;
+}
+
+async function readRouteRequest(req: IncomingMessage): Promise<RouteRequest> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large.");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  let body: any;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON.");
+  }
+  return {
+    question: validateQuestion(body?.question),
+    sessionId: validateSessionId(body?.sessionId)
+  };
+}
+
+function validateQuestion(value: unknown): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new HttpError(400, 'A non-empty "question" is required.');
+  }
+  return value.trim();
+}
+
+function validateSessionId(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string" || !/^[\w.-]{1,128}$/.test(value)) {
+    throw new HttpError(400, '"sessionId" must be 1-128 letters, digits, dots, dashes, or underscores.');
+  }
+  return value;
+}
+
+function sendJson(res: ServerResponse, status: number, payload: unknown): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+async function main() {
+  const port = Number(process.env.PORT ?? 3000);
+  const registry = await loadDepartments();
+  const state: ServiceState = {
+    storesReady: Object.fromEntries(registry.intents.map((intent) => [intent, false]))
+  };
+  const tracing = Boolean(await configureLangfuse());
+  const server = createRouterServer({ state, ...(tracing ? { createLangfuseHandler } : {}) });
+  server.listen(port, () => {
+    console.log(`Department router listening on http://localhost:${port}`);
+  });
+
+  const stopWatching = new AbortController();
+  server.on("close", () => stopWatching.abort());
+  createMultiAgentRouter({
+    registry,
+    ...(process.env.WATCH_DOCUMENTS === "true" ? { watchDocuments: { signal: stopWatching.signal } } : {}),
+    onStoreReady: (department) => {
+      state.storesReady[department] = true;
+    }
+  })
+    .then((router) => {
+      state.router = router;
+      console.log("Vector stores loaded. Router ready.");
+    })
+    .catch((error) => {
+      state.startupError = error?.message ?? String(error);
+      console.error("Failed to initialize router", error);
+    });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error("Failed to start router service", error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,95 @@
+import { createHash, randomUUID } from "crypto";
+import { z } from "zod";
+import { ToolRegistry, defineTool } from "./tool_registry.js";
+import type { AgentTool } from "./tool_registry.js";
+
+/**
+ * Local stand-ins for the HRIS, identity, and ERP integrations. They return
+ * deterministic, clearly fake data so the tool loop can be exercised end to end.
+ */
+const DEMO_EMPLOYEE_ID = "demo-employee";
+
+export const getPtoBalanceTool = defineTool({
+  name: "get_pto_balance",
+  description: "Looks up the caller's current paid time off balances in days.",
+  schema: z.object({
+    leaveType: z.enum(["vacation", "sick", "personal"]).optional().describe("omit for every leave type")
+  }),
+  async execute({ leaveType }, { caller }) {
+    const employeeId = caller?.userId ?? DEMO_EMPLOYEE_ID;
+    const seed = createHash("sha256").update(employeeId).digest();
+    const balances = {
+      vacation: 5 + (seed[0] % 16) + (seed[1] % 2) * 0.5,
+      sick: 2 + (seed[2] % 9),
+      personal: seed[3] % 4
+    };
+    return {
+      employeeId,
+      asOf: new Date().toISOString().slice(0, 10),
+      balances: leaveType ? { [leaveType]: balances[leaveType] } : balances
+    };
+  }
+});
+
+export const openAccessRequestTool = defineTool({
+  name: "open_access_request",
+  description: "Opens a request for access to an application or system on behalf of the caller.",
+  schema: z.object({
+    system: z.string().min(1).describe("application or system name"),
+    accessLevel: z.enum(["read", "write", "admin"]),
+    justification: z.string().min(10).describe("business reason")
+  }),
+  async execute({ system, accessLevel }, { caller }) {
+    return {
+      requestId: `AR-${randomUUID().slice(0, 8).toUpperCase()}`,
+      requester: caller?.userId ?? DEMO_EMPLOYEE_ID,
+      system,
+      accessLevel,
+      status: "pending_approval",
+      approver: accessLevel === "admin" ? "Security Operations" : `${system} system owner`,
+      slaHours: accessLevel === "admin" ? 48 : 24
+    };
+  }
+});
+
+const EXPENSE_APPROVAL_TIERS: { below: number; approvers: string[] }[] = [
+  { below: 1000, approvers: ["manager"] },
+  { below: 10000, approvers: ["manager", "director"] },
+  { below: Infinity, approvers: ["manager", "director", "vp"] }
+];
+
+export const checkExpenseApprovalTool = defineTool({
+  name: "check_expense_approval",
+  description: "Returns the approvals an expense of the given amount requires, including whether a VP must sign off.",
+  schema: z.object({
+    amount: z.number().positive(),
+    currency: z.string().length(3).default("USD"),
+    category: z.string().optional().describe("e.g. travel, software, hardware")
+  }),
+  async execute({ amount, currency, category }) {
+    if (currency.toUpperCase() !== "USD") {
+      throw new Error("The approval matrix is defined in USD; convert the amount before checking.");
+    }
+    const tier = EXPENSE_APPROVAL_TIERS.find(({ below }) => amount < below)!;
+    return {
+      amount,
+      currency: "USD",
+      ...(category ? { category } : {}),
+      requiredApprovers: tier.approvers,
+      needsVpApproval: tier.approvers.includes("vp")
+    };
+  }
+});
+
+export const STUB_TOOLS: AgentTool[] = [getPtoBalanceTool, openAccessRequestTool, checkExpenseApprovalTool];
+
+/** Builds a department's registry from the tool names listed in `departments.json`. */
+export function createToolRegistry(names: string[], catalog: AgentTool[] = STUB_TOOLS): ToolRegistry {
+  const unknown = names.filter((name) => !catalog.some((tool) => tool.name === name));
+  if (unknown.length) {
+    throw new Error(
+      `Unknown tools ${unknown.join(", ")}. Available tools: ${catalog.map((tool) => tool.name).join(", ")}.`
+    );
+  }
+  return new ToolRegistry(catalog.filter((tool) => names.includes(tool.name)));
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import type { CallerIdentity } from "../access/access_control.js";
+
+export interface ToolContext {
+  /** Identity the tool acts on behalf of; stub tools fall back to a demo employee. */
+  caller?: CallerIdentity;
+}
+
+export interface AgentTool<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  /** Validates the arguments the LLM supplies before `execute` runs. */
+  schema: TSchema;
+  execute(input: z.infer<TSchema>, context: ToolContext): Promise<unknown>;
+}
+
+export interface ToolCallRecord {
+  tool: string;
+  input: unknown;
+  /** Present when the tool ran successfully. */
+  output?: unknown;
+  /** Validation or execution failure reported back to the LLM. */
+  error?: string;
+}
+
+/**
+ * Keeps `execute` typed against the tool's own schema. The widened `AgentTool` is safe to
+ * hand to the registry because it always parses input with that same schema first.
+ */
+export function defineTool<TSchema extends z.ZodTypeAny>(tool: AgentTool<TSchema>): AgentTool {
+  return tool;
+}
+
+/**
+ * Tools one department agent may call. Input validation and error capture live here
+ * so a bad call becomes a tool result the LLM can correct rather than a failed turn.
+ */
+export class ToolRegistry {
+  private readonly tools: Map<string, AgentTool>;
+
+  constructor(tools: AgentTool[] = []) {
+    this.tools = new Map(tools.map((tool) => [tool.name, tool]));
+  }
+
+  get names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  describe(): string {
+    return [...this.tools.values()]
+      .map((tool) => `- ${tool.name}: ${tool.description}\n  Input: ${describeInputSchema(tool.schema)}`)
+      .join("\n");
+  }
+
+  async call(name: string, input: unknown, context: ToolContext): Promise<ToolCallRecord> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { tool: name, input, error: `Unknown tool "${name}". Available tools: ${this.names.join(", ")}.` };
+    }
+    const parsed = tool.schema.safeParse(input ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(input)"}: ${issue.message}`);
+      return { tool: name, input, error: `Invalid input: ${issues.join("; ")}` };
+    }
+    try {
+      return { tool: name, input: parsed.data, output: await tool.execute(parsed.data, context) };
+    } catch (error: any) {
+      return { tool: name, input: parsed.data, error: error?.message ?? String(error) };
+    }
+  }
+}
+
+/** Compact, prompt-friendly rendering of an object schema's fields. */
+export function describeInputSchema(schema: z.ZodTypeAny): string {
+  if (!(schema instanceof z.ZodObject)) {
+    return describeType(schema);
+  }
+  const fields = Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([key, field]) => {
+    const optional = field.isOptional() ? "?" : "";
+    const description = field.description ? ` (${field.description})` : "";
+    return `${key}${optional}: ${describeType(field)}${description}`;
+  });
+  return fields.length ? `{ ${fields.join(", ")} }` : "{}";
+}
+
+function describeType(schema: z.ZodTypeAny): string {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return describeType(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return describeType(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return (schema.options as string[]).map((option) => JSON.stringify(option)).join(" | ");
+  }
+  if (schema instanceof z.ZodArray) {
+    return `${describeType(schema.element)}[]`;
+  }
+  if (schema instanceof z.ZodString) {
+    return "string";
+  }
+  if (schema instanceof z.ZodNumber) {
+    return "number";
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return "boolean";
+  }
+  return "value";
+}
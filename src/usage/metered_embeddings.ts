@@ -0,0 +1,20 @@
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { reportEmbeddingUsage } from "./usage_tracker.js";
+
+/**
+ * OpenAI embeddings client that reports the token usage of every API call (query
+ * embeddings, cache lookups, and indexing batches) to the enclosing `meterEmbeddings`
+ * scope, since LangChain's embeddings emit no callbacks.
+ */
+export class MeteredOpenAIEmbeddings extends OpenAIEmbeddings {
+  protected async embeddingWithRetry(request: Parameters<OpenAIEmbeddings["embeddingWithRetry"]>[0]) {
+    const startedAt = Date.now();
+    const response = await super.embeddingWithRetry(request);
+    reportEmbeddingUsage({
+      model: response.model || this.model,
+      tokens: response.usage?.prompt_tokens ?? 0,
+      latencyMs: Date.now() - startedAt
+    });
+    return response;
+  }
+}
@@ -0,0 +1,357 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { readFile } from "fs/promises";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { LLMResult } from "@langchain/core/outputs";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { z } from "zod";
+import type { DepartmentIntent } from "../agents/types.js";
+
+/** Trace metadata keys that attribute an LLM call to a routing step. */
+export const USAGE_STEP_KEY = "usage_step";
+export const USAGE_INTENT_KEY = "usage_intent";
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/** List prices for the default models; override or extend with `USAGE_PRICES`. */
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 }
+};
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Absent when any call used a model missing from the price table. */
+  costUsd?: number;
+}
+
+export interface UsageStep extends TokenUsage {
+  /**
+   * Routing step that made the call, e.g. `classification`, `turn`, `evaluation`, or
+   * for embedding calls `cache` (answer cache lookup) and `retrieval`.
+   */
+  step: string;
+  intent?: DepartmentIntent;
+  model: string;
+  latencyMs: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  /** Models without a price; their tokens are counted but not costed. */
+  unpricedModels?: string[];
+}
+
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+export interface BudgetExceeded {
+  limit: "tokens" | "cost";
+  budget: UsageBudget;
+  /** Queued intents and handoffs that were not run once the budget ran out. */
+  skippedIntents: DepartmentIntent[];
+}
+
+export interface RouteUsage {
+  total: UsageTotals;
+  steps: UsageStep[];
+  /** Wall-clock time of the whole route call. */
+  durationMs: number;
+  budget?: UsageBudget;
+  truncated?: BudgetExceeded;
+}
+
+interface PendingCall {
+  step: string;
+  intent?: DepartmentIntent;
+  model: string;
+  startedAt: number;
+}
+
+/** Tokens of one embeddings API call; embeddings have no completion tokens. */
+export interface EmbeddingUsage {
+  model: string;
+  tokens: number;
+  latencyMs: number;
+}
+
+export type EmbeddingUsageSink = (usage: EmbeddingUsage) => void;
+
+/**
+ * Embedding calls carry no LangChain callbacks, so usage reaches the tracker through
+ * the async context of the code that triggered them instead.
+ */
+const embeddingSinks = new AsyncLocalStorage<EmbeddingUsageSink>();
+
+/** Runs `run` with `sink` receiving the usage of every embedding call it makes, as do enclosing sinks. */
+export function meterEmbeddings<T>(sink: EmbeddingUsageSink, run: () => Promise<T>): Promise<T> {
+  const parent = embeddingSinks.getStore();
+  return embeddingSinks.run(
+    parent
+      ? (usage) => {
+          sink(usage);
+          parent(usage);
+        }
+      : sink,
+    run
+  );
+}
+
+/** Called by metered embeddings clients after each API call. */
+export function reportEmbeddingUsage(usage: EmbeddingUsage): void {
+  embeddingSinks.getStore()?.(usage);
+}
+
+/**
+ * Attributes the embedding calls of `run` to `step` (and the config's intent) on the
+ * `UsageTracker` among the config's callbacks, if any.
+ */
+export function trackEmbeddings<T>(config: RunnableConfig | undefined, step: string, run: () => Promise<T>): Promise<T> {
+  const callbacks = config?.callbacks;
+  const handlers = Array.isArray(callbacks) ? callbacks : (callbacks?.handlers ?? []);
+  const tracker = handlers.find((handler): handler is UsageTracker => handler instanceof UsageTracker);
+  if (!tracker) {
+    return run();
+  }
+  const intent = config?.metadata?.[USAGE_INTENT_KEY];
+  return meterEmbeddings(tracker.embeddingSink(step, typeof intent === "string" ? intent : undefined), run);
+}
+
+/** Metadata to merge into a step's config so its LLM calls are attributed to it. */
+export function usageStepMetadata(step: string, intent?: DepartmentIntent): Record<string, string> {
+  return { [USAGE_STEP_KEY]: step, ...(intent ? { [USAGE_INTENT_KEY]: intent } : {}) };
+}
+
+/**
+ * Records token usage and latency of every LLM call made under one route request.
+ * Registered as a callback on the request's config, so it sees calls from every agent
+ * without the agents knowing about it. Handlers are awaited so budget checks right
+ * after a call see its usage.
+ */
+export class UsageTracker extends BaseCallbackHandler {
+  name = "usage_tracker";
+  awaitHandlers = true;
+  private readonly pending = new Map<string, PendingCall>();
+  private readonly recorded: UsageStep[] = [];
+
+  constructor(private readonly prices: PriceTable = DEFAULT_PRICES) {
+    super();
+  }
+
+  get steps(): UsageStep[] {
+    return [...this.recorded];
+  }
+
+  /** Returns a copy of `config` with this tracker added to its callbacks. */
+  attach(config?: RunnableConfig): RunnableConfig {
+    const callbacks = config?.callbacks;
+    if (!callbacks) {
+      return { ...config, callbacks: [this] };
+    }
+    return {
+      ...config,
+      callbacks: Array.isArray(callbacks) ? [...callbacks, this] : callbacks.copy([this])
+    };
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ): void {
+    this.start(llm, runId, extraParams, metadata);
+  }
+
+  handleLLMStart(
+    llm: Serialized,
+    _prompts: string[],
+    runId: string,
+    _parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ): void {
+    this.start(llm, runId, extraParams, metadata);
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string): void {
+    const call = this.pending.get(runId);
+    if (!call) {
+      return;
+    }
+    this.pending.delete(runId);
+    const { promptTokens, completionTokens } = tokensOf(output);
+    const model = String(output.llmOutput?.model_name ?? call.model);
+    const costUsd = priceCall(this.prices, model, promptTokens, completionTokens);
+    this.recorded.push({
+      step: call.step,
+      ...(call.intent ? { intent: call.intent } : {}),
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      ...(costUsd === undefined ? {} : { costUsd }),
+      latencyMs: Date.now() - call.startedAt
+    });
+  }
+
+  handleLLMError(_error: unknown, runId: string): void {
+    this.pending.delete(runId);
+  }
+
+  /** Records embedding calls as `step` steps; pass to `meterEmbeddings`. */
+  embeddingSink(step: string, intent?: DepartmentIntent): EmbeddingUsageSink {
+    return ({ model, tokens, latencyMs }) => {
+      const costUsd = priceCall(this.prices, model, tokens, 0);
+      this.recorded.push({
+        step,
+        ...(intent ? { intent } : {}),
+        model,
+        promptTokens: tokens,
+        completionTokens: 0,
+        totalTokens: tokens,
+        ...(costUsd === undefined ? {} : { costUsd }),
+        latencyMs
+      });
+    };
+  }
+
+  totals(filter: (step: UsageStep) => boolean = () => true): UsageTotals {
+    return sumUsage(this.recorded.filter(filter));
+  }
+
+  /** Which limit of `budget` the usage so far has reached, if any. */
+  exceeded(budget: UsageBudget | undefined): BudgetExceeded["limit"] | undefined {
+    if (!budget) {
+      return undefined;
+    }
+    const total = this.totals();
+    if (budget.maxTokens !== undefined && total.totalTokens >= budget.maxTokens) {
+      return "tokens";
+    }
+    // Unpriced calls cannot be costed, so only the priced share counts against the cap.
+    const cost = this.recorded.reduce((sum, step) => sum + (step.costUsd ?? 0), 0);
+    if (budget.maxCostUsd !== undefined && cost >= budget.maxCostUsd) {
+      return "cost";
+    }
+    return undefined;
+  }
+
+  private start(
+    llm: Serialized,
+    runId: string,
+    extraParams?: Record<string, unknown>,
+    metadata?: Record<string, unknown>
+  ): void {
+    const invocation = extraParams?.invocation_params as Record<string, unknown> | undefined;
+    const model = invocation?.model ?? invocation?.model_name ?? metadata?.ls_model_name ?? llm.id[llm.id.length - 1];
+    const intent = metadata?.[USAGE_INTENT_KEY];
+    this.pending.set(runId, {
+      step: typeof metadata?.[USAGE_STEP_KEY] === "string" ? (metadata[USAGE_STEP_KEY] as string) : "other",
+      ...(typeof intent === "string" ? { intent } : {}),
+      model: String(model ?? "unknown"),
+      startedAt: Date.now()
+    });
+  }
+}
+
+export function sumUsage(steps: UsageStep[]): UsageTotals {
+  const unpriced = [...new Set(steps.filter((step) => step.costUsd === undefined).map((step) => step.model))];
+  const promptTokens = steps.reduce((sum, step) => sum + step.promptTokens, 0);
+  const completionTokens = steps.reduce((sum, step) => sum + step.completionTokens, 0);
+  return {
+    calls: steps.length,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    ...(unpriced.length ? { unpricedModels: unpriced } : { costUsd: roundUsd(steps.reduce((sum, step) => sum + step.costUsd!, 0)) })
+  };
+}
+
+/** One-line summary for logs, e.g. `1840 tokens (1500 in / 340 out) over 3 calls, ~$0.000429`. */
+export function describeUsage(totals: UsageTotals): string {
+  const cost =
+    totals.costUsd !== undefined
+      ? `~$${totals.costUsd.toFixed(6)}`
+      : `cost unknown for ${totals.unpricedModels!.join(", ")}`;
+  return `${totals.totalTokens} tokens (${totals.promptTokens} in / ${totals.completionTokens} out) over ${totals.calls} calls, ${cost}`;
+}
+
+/** Prefers the message's `usage_metadata`, falling back to the provider's `tokenUsage`. */
+function tokensOf(output: LLMResult): { promptTokens: number; completionTokens: number } {
+  const usage = output.generations
+    .flat()
+    .map((generation) => (generation as { message?: { usage_metadata?: Record<string, number> } }).message?.usage_metadata)
+    .find(Boolean);
+  if (usage) {
+    return { promptTokens: usage.input_tokens ?? 0, completionTokens: usage.output_tokens ?? 0 };
+  }
+  const reported = output.llmOutput?.tokenUsage ?? output.llmOutput?.estimatedTokenUsage ?? {};
+  return { promptTokens: reported.promptTokens ?? 0, completionTokens: reported.completionTokens ?? 0 };
+}
+
+/**
+ * Exact model names win; otherwise the provider prefix is dropped (`openai/gpt-4o-mini`)
+ * and dated snapshots fall back to their base model (`gpt-4o-mini-2024-07-18`).
+ */
+export function findPrice(prices: PriceTable, model: string): ModelPrice | undefined {
+  const bare = model.slice(model.lastIndexOf("/") + 1);
+  return prices[model] ?? prices[bare] ?? prices[bare.replace(/-\d{4}-\d{2}-\d{2}$/, "")];
+}
+
+function priceCall(prices: PriceTable, model: string, promptTokens: number, completionTokens: number): number | undefined {
+  const price = findPrice(prices, model);
+  return price ? roundUsd((promptTokens * price.input + completionTokens * price.output) / 1e6) : undefined;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+const priceTableSchema = z.record(
+  z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative()
+  })
+);
+
+/** Reads `{ "<model>": { "input": <USD per 1M tokens>, "output": ... } }` merged over the defaults. */
+export async function loadPriceTable(filePath?: string): Promise<PriceTable> {
+  if (!filePath) {
+    return DEFAULT_PRICES;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(filePath, "utf8"));
+  } catch (error: any) {
+    const reason = error?.code === "ENOENT" ? "file not found" : error?.message ?? String(error);
+    throw new Error(`Unable to read price table ${filePath}: ${reason}`);
+  }
+  const parsed = priceTableSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid price table ${filePath}:\n${issues.join("\n")}`);
+  }
+  return { ...DEFAULT_PRICES, ...parsed.data };
+}
@@ -0,0 +1,209 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { Document } from "@langchain/core/documents";
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { matchesAccessConditions } from "../access/access_control.js";
+import type { AccessConditions } from "../access/access_control.js";
+import type { VectorStoreProvider } from "./provider.js";
+import { CHUNK_FINGERPRINT_KEY } from "./sync.js";
+
+interface StoredVector {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+interface LocalStoreSnapshot {
+  namespace: string;
+  vectors: StoredVector[];
+}
+
+export interface LocalDeleteParams {
+  ids?: string[];
+  deleteAll?: boolean;
+}
+
+/**
+ * Brute-force cosine similarity store persisted as one JSON file per namespace.
+ * Intended for offline development, CI, and air-gapped deployments where the
+ * department corpora are small enough to scan in memory.
+ */
+export class LocalVectorStore extends VectorStore {
+  declare FilterType: (doc: DocumentInterface) => boolean;
+  private readonly vectors = new Map<string, StoredVector>();
+
+  constructor(
+    embeddings: EmbeddingsInterface,
+    private readonly namespace: string,
+    private readonly filePath: string
+  ) {
+    super(embeddings, {});
+  }
+
+  static async load(
+    embeddings: EmbeddingsInterface,
+    namespace: string,
+    filePath: string
+  ): Promise<LocalVectorStore> {
+    const store = new LocalVectorStore(embeddings, namespace, filePath);
+    try {
+      const raw = await readFile(filePath, "utf8");
+      const snapshot = JSON.parse(raw) as LocalStoreSnapshot;
+      for (const vector of snapshot.vectors ?? []) {
+        store.vectors.set(vector.id, vector);
+      }
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw new Error(`Failed to read local vector store ${filePath}: ${error?.message ?? error}`);
+      }
+    }
+    return store;
+  }
+
+  _vectorstoreType(): string {
+    return "local-file";
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  fingerprints(): Map<string, string> {
+    const fingerprints = new Map<string, string>();
+    for (const vector of this.vectors.values()) {
+      const fingerprint = vector.metadata?.[CHUNK_FINGERPRINT_KEY];
+      fingerprints.set(vector.id, typeof fingerprint === "string" ? fingerprint : "");
+    }
+    return fingerprints;
+  }
+
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const embeddings = await this.embeddings.embedDocuments(
+      documents.map((doc) => doc.pageContent)
+    );
+    return this.addVectors(embeddings, documents, options);
+  }
+
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const ids = documents.map((_, idx) => options?.ids?.[idx] ?? randomUUID());
+    documents.forEach((doc, idx) => {
+      this.vectors.set(ids[idx], {
+        id: ids[idx],
+        content: doc.pageContent,
+        metadata: doc.metadata ?? {},
+        embedding: vectors[idx]
+      });
+    });
+    await this.save();
+    return ids;
+  }
+
+  async delete(params: LocalDeleteParams = {}): Promise<void> {
+    if (params.deleteAll) {
+      this.vectors.clear();
+    } else {
+      for (const id of params.ids ?? []) {
+        this.vectors.delete(id);
+      }
+    }
+    await this.save();
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this["FilterType"]
+  ): Promise<[DocumentInterface, number][]> {
+    const scored: [DocumentInterface, number][] = [];
+    for (const vector of this.vectors.values()) {
+      const doc = new Document({
+        id: vector.id,
+        pageContent: vector.content,
+        metadata: vector.metadata
+      });
+      if (filter && !filter(doc)) {
+        continue;
+      }
+      scored.push([doc, cosineSimilarity(query, vector.embedding)]);
+    }
+    return scored.sort((a, b) => b[1] - a[1]).slice(0, k);
+  }
+
+  private async save(): Promise<void> {
+    const snapshot: LocalStoreSnapshot = {
+      namespace: this.namespace,
+      vectors: [...this.vectors.values()]
+    };
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(snapshot), "utf8");
+  }
+}
+
+export class LocalVectorStoreProvider implements VectorStoreProvider {
+  readonly kind = "local" as const;
+  private readonly stores = new Map<string, Promise<LocalVectorStore>>();
+
+  constructor(
+    private readonly embeddings: EmbeddingsInterface,
+    private readonly directory: string
+  ) {}
+
+  async open(namespace: string): Promise<LocalVectorStore> {
+    let store = this.stores.get(namespace);
+    if (!store) {
+      store = LocalVectorStore.load(
+        this.embeddings,
+        namespace,
+        path.join(this.directory, `${namespace}.json`)
+      );
+      this.stores.set(namespace, store);
+    }
+    return store;
+  }
+
+  async listFingerprints(namespace: string): Promise<Map<string, string>> {
+    const store = await this.open(namespace);
+    return store.fingerprints();
+  }
+
+  async upsert(namespace: string, docs: DocumentInterface[], ids: string[]): Promise<void> {
+    const store = await this.open(namespace);
+    await store.addDocuments(docs, { ids });
+  }
+
+  async remove(namespace: string, ids: string[]): Promise<void> {
+    const store = await this.open(namespace);
+    await store.delete({ ids });
+  }
+
+  accessFilter(conditions: AccessConditions): LocalVectorStore["FilterType"] {
+    return (doc) => matchesAccessConditions(doc.metadata, conditions);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (!normA || !normB) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
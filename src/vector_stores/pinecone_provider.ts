@@ -0,0 +1,100 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { Pinecone } from "@pinecone-database/pinecone";
+import type { Index } from "@pinecone-database/pinecone";
+import { PineconeStore } from "@langchain/pinecone";
+import type { AccessConditions } from "../access/access_control.js";
+import type { VectorStoreProvider } from "./provider.js";
+import { CHUNK_FINGERPRINT_KEY } from "./sync.js";
+
+const FETCH_BATCH_SIZE = 100;
+
+export interface PineconeProviderConfig {
+  apiKey: string;
+  indexName: string;
+  controllerHost?: string;
+}
+
+export class PineconeVectorStoreProvider implements VectorStoreProvider {
+  readonly kind = "pinecone" as const;
+  private indexPromise: Promise<Index> | null = null;
+  private readonly stores = new Map<string, Promise<PineconeStore>>();
+
+  constructor(
+    private readonly embeddings: EmbeddingsInterface,
+    private readonly config: PineconeProviderConfig
+  ) {}
+
+  async open(namespace: string): Promise<PineconeStore> {
+    let store = this.stores.get(namespace);
+    if (!store) {
+      store = this.resolveIndex().then((pineconeIndex) =>
+        PineconeStore.fromExistingIndex(this.embeddings, {
+          pineconeIndex,
+          namespace
+        })
+      );
+      this.stores.set(namespace, store);
+    }
+    return store;
+  }
+
+  async listFingerprints(namespace: string): Promise<Map<string, string>> {
+    const index = (await this.resolveIndex()).namespace(namespace);
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const page = await index.listPaginated({ paginationToken });
+      for (const vector of page.vectors ?? []) {
+        if (vector.id) {
+          ids.push(vector.id);
+        }
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    const fingerprints = new Map<string, string>();
+    for (let offset = 0; offset < ids.length; offset += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(offset, offset + FETCH_BATCH_SIZE);
+      const { records } = await index.fetch(batch);
+      for (const id of batch) {
+        const fingerprint = records[id]?.metadata?.[CHUNK_FINGERPRINT_KEY];
+        fingerprints.set(id, typeof fingerprint === "string" ? fingerprint : "");
+      }
+    }
+    return fingerprints;
+  }
+
+  async upsert(namespace: string, docs: DocumentInterface[], ids: string[]): Promise<void> {
+    const store = await this.open(namespace);
+    await store.addDocuments(docs, { ids, namespace });
+  }
+
+  async remove(namespace: string, ids: string[]): Promise<void> {
+    const store = await this.open(namespace);
+    await store.delete({ ids, namespace });
+  }
+
+  /** `$in` on list metadata matches when any stored value is accepted. */
+  accessFilter(conditions: AccessConditions): PineconeStore["FilterType"] {
+    return Object.fromEntries(Object.entries(conditions).map(([key, values]) => [key, { $in: values }]));
+  }
+
+  private async resolveIndex(): Promise<Index> {
+    if (!this.config.apiKey || !this.config.indexName) {
+      throw new Error(
+        "Pinecone configuration missing. Set PINECONE_API_KEY and PINECONE_INDEX."
+      );
+    }
+    if (!this.indexPromise) {
+      const pinecone = new Pinecone({
+        apiKey: this.config.apiKey,
+        ...(this.config.controllerHost
+          ? { controllerHostUrl: this.config.controllerHost }
+          : {})
+      });
+      this.indexPromise = Promise.resolve(pinecone.index(this.config.indexName));
+    }
+    return this.indexPromise;
+  }
+}
@@ -0,0 +1,33 @@
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { VectorStore } from "@langchain/core/vectorstores";
+import type { AccessConditions } from "../access/access_control.js";
+
+export type VectorStoreKind = "pinecone" | "local";
+
+export const VECTOR_STORE_KINDS: readonly VectorStoreKind[] = ["pinecone", "local"];
+
+/**
+ * Backend-agnostic handle on the vector database. Each department lives in its own
+ * namespace; the router only ever talks to the `VectorStore` returned by `open`,
+ * while `syncNamespace` uses the remaining methods to apply incremental changes.
+ */
+export interface VectorStoreProvider {
+  readonly kind: VectorStoreKind;
+  open(namespace: string): Promise<VectorStore>;
+  /** Returns every stored chunk ID mapped to its fingerprint ("" when none was recorded). */
+  listFingerprints(namespace: string): Promise<Map<string, string>>;
+  upsert(namespace: string, docs: DocumentInterface[], ids: string[]): Promise<void>;
+  remove(namespace: string, ids: string[]): Promise<void>;
+  /** Translates ACL conditions into the backend's native similarity-search filter. */
+  accessFilter(conditions: AccessConditions): VectorStore["FilterType"];
+}
+
+export function parseVectorStoreKind(raw: string | undefined): VectorStoreKind {
+  const normalized = (raw ?? "pinecone").trim().toLowerCase();
+  if (!VECTOR_STORE_KINDS.includes(normalized as VectorStoreKind)) {
+    throw new Error(
+      `Unsupported VECTOR_STORE_PROVIDER "${raw}". Expected one of: ${VECTOR_STORE_KINDS.join(", ")}.`
+    );
+  }
+  return normalized as VectorStoreKind;
+}
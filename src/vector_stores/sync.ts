@@ -0,0 +1,125 @@
+import { createHash } from "crypto";
+import { Document } from "@langchain/core/documents";
+import type { DocumentInterface } from "@langchain/core/documents";
+import type { VectorStoreProvider } from "./provider.js";
+
+export const CHUNK_FINGERPRINT_KEY = "chunk_fingerprint";
+
+export interface SyncReport {
+  namespace: string;
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+export interface IndexedChunk {
+  id: string;
+  fingerprint: string;
+  doc: DocumentInterface;
+}
+
+/**
+ * Assigns content-derived IDs so editing one paragraph only touches that chunk.
+ * Identical chunks within a namespace are disambiguated by occurrence order, and the
+ * fingerprint additionally covers metadata so relabelled chunks count as updates.
+ */
+export function assignChunkIds(
+  namespace: string,
+  docs: DocumentInterface[]
+): IndexedChunk[] {
+  const occurrences = new Map<string, number>();
+  return docs.map((doc) => {
+    const contentHash = sha256(doc.pageContent);
+    const occurrence = occurrences.get(contentHash) ?? 0;
+    occurrences.set(contentHash, occurrence + 1);
+    const id = `${namespace}#${contentHash.slice(0, 32)}${occurrence ? `-${occurrence}` : ""}`;
+    const { [CHUNK_FINGERPRINT_KEY]: _previous, ...metadata } = doc.metadata ?? {};
+    const fingerprint = sha256(`${doc.pageContent}\u0000${stableStringify(metadata)}`);
+    return {
+      id,
+      fingerprint,
+      doc: new Document({
+        id,
+        pageContent: doc.pageContent,
+        metadata: { ...metadata, [CHUNK_FINGERPRINT_KEY]: fingerprint }
+      })
+    };
+  });
+}
+
+/**
+ * Short digest of a namespace's chunk IDs and fingerprints. It changes whenever any
+ * chunk is added, edited, relabelled, or removed, so caches can key on it.
+ */
+export function knowledgeBaseVersion(namespace: string, docs: DocumentInterface[]): string {
+  const lines = assignChunkIds(namespace, docs)
+    .map((chunk) => `${chunk.id}:${chunk.fingerprint}`)
+    .sort();
+  return sha256(lines.join("\n")).slice(0, 16);
+}
+
+/**
+ * Diffs the desired chunk set against what the backend already holds, then embeds
+ * and upserts only new or changed chunks and deletes the ones that disappeared.
+ */
+export async function syncNamespace(
+  provider: VectorStoreProvider,
+  namespace: string,
+  docs: DocumentInterface[]
+): Promise<SyncReport> {
+  const desired = assignChunkIds(namespace, docs);
+  const existing = await provider.listFingerprints(namespace);
+
+  const toUpsert: IndexedChunk[] = [];
+  let added = 0;
+  let updated = 0;
+  for (const chunk of desired) {
+    const current = existing.get(chunk.id);
+    if (current === undefined) {
+      added += 1;
+      toUpsert.push(chunk);
+    } else if (current !== chunk.fingerprint) {
+      updated += 1;
+      toUpsert.push(chunk);
+    }
+  }
+  const desiredIds = new Set(desired.map((chunk) => chunk.id));
+  const toDelete = [...existing.keys()].filter((id) => !desiredIds.has(id));
+
+  if (toUpsert.length) {
+    await provider.upsert(
+      namespace,
+      toUpsert.map((chunk) => chunk.doc),
+      toUpsert.map((chunk) => chunk.id)
+    );
+  }
+  if (toDelete.length) {
+    await provider.remove(namespace, toDelete);
+  }
+
+  return {
+    namespace,
+    added,
+    updated,
+    deleted: toDelete.length,
+    unchanged: desired.length - toUpsert.length
+  };
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}